@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Launches Chrome from node_modules paths at runtime, so keep it unbundled
+  serverExternalPackages: ["puppeteer-core"],
 };
 
 export default nextConfig;
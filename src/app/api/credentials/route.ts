@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolvePosthogHost } from '@/lib/posthog-host';
+import { checkPosthogCredentials } from '@/lib/posthog-credentials';
+import { getSessionApiKey } from '@/lib/session';
+
+// Check a key (and optionally a project) before logging in, and list the
+// projects it can see. Nothing is stored. `keyRef` checks a key that's
+// already in the session instead of a new one.
+export async function POST(request: NextRequest) {
+  try {
+    const { projectId, apiKey: rawApiKey, keyRef, host } = await request.json();
+
+    const posthogDomain = resolvePosthogHost(host);
+    if (!posthogDomain) {
+      return NextResponse.json(
+        { error: 'PostHog host is not allowed. Self-hosted instances have to be listed in POSTHOG_ALLOWED_HOSTS on the server.' },
+        { status: 400 }
+      );
+    }
+
+    const apiKey = rawApiKey ? String(rawApiKey) : keyRef ? getSessionApiKey(request, String(keyRef), posthogDomain) : null;
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'API Key is required' },
+        { status: 400 }
+      );
+    }
+
+    const check = await checkPosthogCredentials(posthogDomain, apiKey, projectId ? String(projectId) : undefined);
+    if (!check.ok) {
+      return NextResponse.json(
+        { error: check.message, code: check.problem, projects: check.projects },
+        { status: check.status }
+      );
+    }
+
+    return NextResponse.json({ projects: check.projects });
+
+  } catch (error) {
+    console.error('Error checking credentials:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,224 @@
+import { randomBytes } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionCredentials } from '@/lib/session';
+import { resolvePosthogHost } from '@/lib/posthog-host';
+import { createPosthogClient, isValidRecordingId } from '@/lib/posthog-client';
+import { loadRecordingSnapshots } from '@/lib/recording-snapshots';
+import {
+  CLIP_FORMATS,
+  MAX_CLIP_SECONDS,
+  RenderUnavailableError,
+  isClipFormat,
+  renderClip,
+} from '@/lib/replay-render';
+import { DEFAULT_WINDOW_ID } from '@/lib/snapshot-windows';
+import type { Credentials, RenderStreamMessage, RRWebEvent } from '@/types/posthog';
+
+// Finished clips stay in memory for a few minutes whether or not they've been
+// downloaded, so the download link in the panel works more than once
+const RENDER_TTL_MS = 3 * 60 * 1000;
+// Renders running or waiting their turn. Each one holds a request open, so
+// past this new ones are turned away.
+const MAX_QUEUED_RENDERS = 3;
+
+interface FinishedRender {
+  scope: string; // host|project it was rendered for
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+const finishedRenders = new Map<string, FinishedRender>();
+
+// A render keeps a whole Chrome busy, so they run one at a time
+let renderQueue: Promise<unknown> = Promise.resolve();
+let queuedRenders = 0;
+
+function enqueueRender<T>(task: () => Promise<T>): Promise<T> {
+  queuedRenders++;
+  const run = renderQueue.then(task, task).finally(() => {
+    queuedRenders--;
+  });
+  renderQueue = run.catch(() => {});
+  return run;
+}
+
+function ndjsonLine(message: RenderStreamMessage): string {
+  return JSON.stringify(message) + '\n';
+}
+
+// Same loading as the snapshots route, so its disk cache and access check
+// apply here too
+async function loadEvents(credentials: Credentials, id: string, signal: AbortSignal): Promise<RRWebEvent[]> {
+  const host = resolvePosthogHost(credentials.host);
+  if (!host) {
+    throw new Error('PostHog host is not allowed');
+  }
+
+  const posthog = createPosthogClient({ host, apiKey: credentials.apiKey });
+  const { events } = await loadRecordingSnapshots(
+    { posthog, projectId: credentials.projectId, recordingId: id, signal },
+    host
+  );
+  if (events.length === 0) {
+    throw new Error('No snapshot data found for this recording');
+  }
+  return events;
+}
+
+// Recording IDs are PostHog's own, but they end up in a header
+function safeFilenamePart(value: string): string {
+  return value.replace(/[^\w-]/g, '_');
+}
+
+// Render part of a recording: { startMs, durationMs, format, windowId? }.
+// Streams NDJSON progress, the last line says where to download the clip.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const credentials = getSessionCredentials(request);
+    if (!credentials) {
+      return NextResponse.json(
+        { error: 'Not logged in' },
+        { status: 401 }
+      );
+    }
+
+    if (!isValidRecordingId(id)) {
+      return NextResponse.json(
+        { error: 'Invalid recording ID' },
+        { status: 400 }
+      );
+    }
+
+    const { startMs, durationMs, format, windowId } = await request.json();
+    if (!isClipFormat(format)) {
+      return NextResponse.json(
+        { error: `Format must be one of ${Object.keys(CLIP_FORMATS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (typeof startMs !== 'number' || startMs < 0 || typeof durationMs !== 'number' || durationMs <= 0) {
+      return NextResponse.json(
+        { error: 'startMs and durationMs must be positive numbers' },
+        { status: 400 }
+      );
+    }
+    if (durationMs > MAX_CLIP_SECONDS * 1000) {
+      return NextResponse.json(
+        { error: `Clips can be at most ${MAX_CLIP_SECONDS} seconds long` },
+        { status: 400 }
+      );
+    }
+
+    if (queuedRenders >= MAX_QUEUED_RENDERS) {
+      return NextResponse.json(
+        { error: 'Too many clips are being rendered, try again in a minute' },
+        { status: 503, headers: { 'Retry-After': '60' } }
+      );
+    }
+
+    const scope = `${credentials.host}|${credentials.projectId}`;
+    const encoder = new TextEncoder();
+
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (message: RenderStreamMessage) => {
+          if (!request.signal.aborted) {
+            controller.enqueue(encoder.encode(ndjsonLine(message)));
+          }
+        };
+
+        send({ type: 'progress', stage: 'queued', progress: 0 });
+
+        try {
+          const clip = await enqueueRender(async () => {
+            // Nobody is waiting for it anymore
+            if (request.signal.aborted) {
+              throw new Error('Render cancelled');
+            }
+
+            send({ type: 'progress', stage: 'loading', progress: 0 });
+            const events = await loadEvents(credentials, id, request.signal);
+            // Each window has its own DOM, only one can be in the clip
+            const windowEvents = typeof windowId === 'string'
+              ? events.filter((event) => (event.windowId ?? DEFAULT_WINDOW_ID) === windowId)
+              : events;
+
+            console.log(`🎞️ Rendering ${format} of ${id} from ${Math.round(startMs)}ms for ${Math.round(durationMs)}ms`);
+            return renderClip(windowEvents, { startMs, durationMs, format }, (stage, progress) => {
+              if (request.signal.aborted) {
+                throw new Error('Render cancelled');
+              }
+              send({ type: 'progress', stage, progress });
+            });
+          });
+
+          const renderId = randomBytes(8).toString('hex');
+          const filename = `tikhog-${safeFilenamePart(id)}-${Math.round(startMs / 1000)}s.${CLIP_FORMATS[format].extension}`;
+          finishedRenders.set(renderId, { scope, filename, contentType: CLIP_FORMATS[format].contentType, data: clip });
+          setTimeout(() => finishedRenders.delete(renderId), RENDER_TTL_MS);
+
+          console.log(`✅ Rendered ${filename} (${clip.length} bytes)`);
+          send({ type: 'done', renderId, filename, bytes: clip.length });
+        } catch (err) {
+          if (err instanceof RenderUnavailableError) {
+            console.warn(`⚠️ Can't render clips: ${err.message}`);
+          } else {
+            console.error('Error rendering clip:', err);
+          }
+          send({ type: 'error', message: err instanceof Error ? err.message : 'Render failed' });
+        }
+
+        if (!request.signal.aborted) {
+          controller.close();
+        }
+      },
+    });
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-store',
+      },
+    });
+
+  } catch (error) {
+    console.error('Error starting render:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Download a finished clip: ?render=<renderId>
+export async function GET(request: NextRequest) {
+  const credentials = getSessionCredentials(request);
+  if (!credentials) {
+    return NextResponse.json(
+      { error: 'Not logged in' },
+      { status: 401 }
+    );
+  }
+
+  const renderId = request.nextUrl.searchParams.get('render') ?? '';
+  const render = finishedRenders.get(renderId);
+  if (!render || render.scope !== `${credentials.host}|${credentials.projectId}`) {
+    return NextResponse.json(
+      { error: 'Clip not found, it may have expired. Render it again.' },
+      { status: 404 }
+    );
+  }
+
+  return new Response(new Uint8Array(render.data), {
+    headers: {
+      'Content-Type': render.contentType,
+      'Content-Disposition': `attachment; filename="${render.filename}"`,
+      'Cache-Control': 'private, no-store',
+    },
+  });
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolvePosthogHost } from '@/lib/posthog-host';
+import { getSessionCredentials } from '@/lib/session';
+import {
+  createPosthogClient,
+  getRecordingApiPath,
+  isValidRecordingId,
+  PosthogError,
+  posthogErrorResponse,
+} from '@/lib/posthog-client';
+import type { SessionRecording } from '@/types/posthog';
+
+// Metadata for a single recording, for links straight to a replay that
+// isn't in the first page of the feed
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const credentials = getSessionCredentials(request);
+    if (!credentials) {
+      return NextResponse.json(
+        { error: 'Not logged in' },
+        { status: 401 }
+      );
+    }
+
+    if (!isValidRecordingId(id)) {
+      return NextResponse.json(
+        { error: 'Invalid recording ID' },
+        { status: 400 }
+      );
+    }
+    const { projectId, apiKey, host } = credentials;
+
+    const posthogDomain = resolvePosthogHost(host);
+    if (!posthogDomain) {
+      return NextResponse.json(
+        { error: 'PostHog host is not allowed' },
+        { status: 400 }
+      );
+    }
+
+    const posthog = createPosthogClient({ host: posthogDomain, apiKey });
+    const recording = await posthog.getJson<SessionRecording>(
+      getRecordingApiPath(projectId, id),
+      { signal: request.signal }
+    );
+    return NextResponse.json(recording);
+
+  } catch (error) {
+    if (error instanceof PosthogError) {
+      return posthogErrorResponse(error, 'Failed to fetch recording');
+    }
+    console.error('Error fetching recording:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
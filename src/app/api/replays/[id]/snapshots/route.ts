@@ -1,154 +1,205 @@
 import { NextRequest, NextResponse } from 'next/server';
-import pako from 'pako';
-
-// Helper to decompress if needed
-function maybeDecompress(data: unknown): unknown {
-  if (typeof data === 'string' && data.charCodeAt(0) === 0x1f && data.charCodeAt(1) === 0x8b) {
-    try {
-      // Convert string to Uint8Array
-      const bytes = new Uint8Array(data.length);
-      for (let i = 0; i < data.length; i++) {
-        bytes[i] = data.charCodeAt(i);
+import { resolvePosthogHost } from '@/lib/posthog-host';
+import { getSessionCredentials } from '@/lib/session';
+import { createPosthogClient, isValidRecordingId, PosthogError, posthogErrorResponse } from '@/lib/posthog-client';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import {
+  BATCH_CONCURRENCY,
+  cacheCompleteSnapshots,
+  fetchAllSnapshotBatches,
+  fetchSnapshotBatch,
+  getRecordingCacheKey,
+  listSnapshotBatches,
+  type BatchContext,
+  type SnapshotBatch,
+} from '@/lib/recording-snapshots';
+import {
+  getSnapshotCacheEtag,
+  hasCachedSnapshots,
+  readCachedSnapshots,
+} from '@/lib/snapshot-cache';
+import type { RRWebEvent, SnapshotStreamMessage } from '@/types/posthog';
+
+const NDJSON_CONTENT_TYPE = 'application/x-ndjson; charset=utf-8';
+
+// Finished recordings are immutable, so the ETag never changes for a cache key
+function cachedResponseHeaders(cacheKey: string): Record<string, string> {
+  return {
+    ETag: getSnapshotCacheEtag(cacheKey),
+    // Revalidate every time so the session is still checked, the 304 is cheap
+    'Cache-Control': 'private, no-cache',
+    Vary: 'Cookie',
+  };
+}
+
+function ndjsonLine(message: SnapshotStreamMessage): string {
+  return JSON.stringify(message) + '\n';
+}
+
+// Emit each batch as an NDJSON line as soon as it and every batch before it
+// have arrived, so the client can start playing from the first full snapshot.
+// `onComplete` gets every event once the stream is finished.
+function streamBatches(
+  context: BatchContext,
+  batches: SnapshotBatch[],
+  onComplete?: (events: RRWebEvent[], failedBatches: number) => void
+): Response {
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (message: SnapshotStreamMessage) => {
+        controller.enqueue(encoder.encode(ndjsonLine(message)));
+      };
+
+      const results = mapWithConcurrency(batches, BATCH_CONCURRENCY, (batch) =>
+        fetchSnapshotBatch(context, batch)
+      );
+
+      let eventCount = 0;
+      let failedBatches = 0;
+      const collected: RRWebEvent[] = [];
+
+      for (let i = 0; i < results.length; i++) {
+        const result = await results[i];
+        // The browser went away, the rest of the batches were cancelled
+        if (context.signal.aborted) return;
+
+        if (result.ok) {
+          eventCount += result.events.length;
+          if (onComplete) {
+            for (const event of result.events) {
+              collected.push(event);
+            }
+          }
+          send({
+            type: 'batch',
+            batch: i,
+            totalBatches: batches.length,
+            events: result.events,
+            ...(result.warnings.length > 0 && { warnings: result.warnings }),
+          });
+        } else {
+          failedBatches++;
+          console.error(`Failed to fetch batch ${i + 1}, status: ${result.status}`);
+          send({
+            type: 'batch_error',
+            batch: i,
+            totalBatches: batches.length,
+            status: result.status,
+            message: result.message,
+          });
+        }
       }
-      const decompressed = pako.inflate(bytes, { to: 'string' });
-      return JSON.parse(decompressed);
-    } catch (e) {
-      console.error('Decompression error:', e);
-      return data;
-    }
-  }
-  return data;
+
+      console.log(`✅ Streamed ${eventCount} events from ${batches.length} batch(es)`);
+      send({ type: 'done', eventCount, failedBatches });
+      controller.close();
+
+      onComplete?.(collected, failedBatches);
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': NDJSON_CONTENT_TYPE,
+      'Cache-Control': 'no-store',
+    },
+  });
 }
 
-// Add interface for blob source
-interface BlobSource {
-  source: string;
-  blob_key?: number;
+// A cache hit in streaming mode is just one batch holding everything
+function streamCachedEvents(events: RRWebEvent[], cacheKey: string): Response {
+  const body =
+    ndjsonLine({ type: 'batch', batch: 0, totalBatches: 1, events }) +
+    ndjsonLine({ type: 'done', eventCount: events.length, failedBatches: 0 });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': NDJSON_CONTENT_TYPE,
+      ...cachedResponseHeaders(cacheKey),
+    },
+  });
 }
 
-export async function POST(
+export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
-    const { projectId, apiKey } = await request.json();
-
-    if (!projectId || !apiKey) {
+    const credentials = getSessionCredentials(request);
+    if (!credentials) {
       return NextResponse.json(
-        { error: 'Project ID and API Key are required' },
-        { status: 400 }
+        { error: 'Not logged in' },
+        { status: 401 }
       );
     }
 
-    const posthogDomain = 'https://us.posthog.com';
-
-    // STEP 1: Get the list of blob keys
-    console.log('Fetching blob keys list...');
-    const sourcesResponse = await fetch(
-      `${posthogDomain}/api/projects/${projectId}/session_recordings/${id}/snapshots?blob_v2=true`,
-      {
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-        },
-      }
-    );
-
-    if (!sourcesResponse.ok) {
-      const errorData = await sourcesResponse.json().catch(() => ({}));
+    if (!isValidRecordingId(id)) {
       return NextResponse.json(
-        { 
-          error: 'Failed to fetch snapshot sources',
-          details: errorData 
-        },
-        { status: sourcesResponse.status }
+        { error: 'Invalid recording ID' },
+        { status: 400 }
       );
     }
+    const { projectId, apiKey, host } = credentials;
+    // ?stream=1 for NDJSON batches as they arrive
+    const stream = request.nextUrl.searchParams.get('stream') === '1';
 
-    const sourcesData = await sourcesResponse.json();
-
-    if (!sourcesData.sources || sourcesData.sources.length === 0) {
-      return NextResponse.json({ sources: [] });
+    const posthogDomain = resolvePosthogHost(host);
+    if (!posthogDomain) {
+      return NextResponse.json(
+        { error: 'PostHog host is not allowed' },
+        { status: 400 }
+      );
     }
 
-    // STEP 2: Extract blob keys and batch them
-    const blobKeys = (sourcesData.sources as BlobSource[])
-      .filter((source) => source.source === 'blob_v2' && source.blob_key !== undefined)
-      .map((source) => source.blob_key as number)
-      .sort((a: number, b: number) => a - b);
+    const posthog = createPosthogClient({ host: posthogDomain, apiKey });
+    const context: BatchContext = { posthog, projectId, recordingId: id, signal: request.signal };
+    const cacheKey = await getRecordingCacheKey(context, posthogDomain);
 
-    console.log(`Found ${blobKeys.length} blobs to fetch`);
+    if (cacheKey) {
+      const etag = getSnapshotCacheEtag(cacheKey);
+      if (request.headers.get('if-none-match') === etag && await hasCachedSnapshots(cacheKey)) {
+        return new Response(null, { status: 304, headers: cachedResponseHeaders(cacheKey) });
+      }
 
-    if (blobKeys.length === 0) {
-      return NextResponse.json({ sources: [] });
+      const cached = await readCachedSnapshots(cacheKey);
+      if (cached) {
+        console.log(`⚡ Serving ${cached.length} cached events for ${id}`);
+        return stream
+          ? streamCachedEvents(cached, cacheKey)
+          : NextResponse.json({ sources: cached, failedBatches: 0, warnings: [] }, { headers: cachedResponseHeaders(cacheKey) });
+      }
     }
 
-    // STEP 3: Create batches of up to 20 blob keys
-    const BATCH_SIZE = 20;
-    const batches: number[][] = [];
-    
-    for (let i = 0; i < blobKeys.length; i += BATCH_SIZE) {
-      batches.push(blobKeys.slice(i, i + BATCH_SIZE));
-    }
+    const batches = await listSnapshotBatches(context);
 
-    console.log(`Created ${batches.length} batches (max ${BATCH_SIZE} blobs each)`);
-
-    // STEP 4: Fetch each batch
-    const allEvents: unknown[] = [];
-
-    for (let i = 0; i < batches.length; i++) {
-      const batch = batches[i];
-      const startKey = batch[0];
-      const endKey = batch[batch.length - 1];
-      
-      console.log(`Fetching batch ${i + 1}/${batches.length}: blobs ${startKey}-${endKey}`);
-      
-      const snapshotResponse = await fetch(
-        `${posthogDomain}/api/projects/${projectId}/session_recordings/${id}/snapshots?source=blob_v2&start_blob_key=${startKey}&end_blob_key=${endKey}`,
-        {
-          headers: {
-            Authorization: `Bearer ${apiKey}`,
-          },
-        }
+    if (stream) {
+      return streamBatches(
+        context,
+        batches,
+        cacheKey ? (events, failedBatches) => cacheCompleteSnapshots(cacheKey, events, failedBatches) : undefined
       );
-
-      if (snapshotResponse.ok) {
-        const rawText = await snapshotResponse.text();
-        const lines = rawText.split('\n').filter(line => line.trim());
-        
-        for (const line of lines) {
-          try {
-            const parsed = JSON.parse(line);
-            // Data comes as [windowId, event] pairs
-            if (Array.isArray(parsed) && parsed.length === 2) {
-              const event = parsed[1] as Record<string, unknown>;
-              // DECOMPRESS the data field if needed
-              if (event.data) {
-                event.data = maybeDecompress(event.data);
-              }
-              allEvents.push(event);
-            }
-          } catch (e) {
-            console.error('Failed to parse line:', e);
-          }
-        }
-      } else {
-        console.error(`Failed to fetch batch ${i + 1}, status: ${snapshotResponse.status}`);
-      }
     }
 
-    // Sort by timestamp for proper playback
-    allEvents.sort((a, b) => {
-      const aEvent = a as { timestamp?: number };
-      const bEvent = b as { timestamp?: number };
-      return (aEvent.timestamp || 0) - (bEvent.timestamp || 0);
-    });
+    if (batches.length === 0) {
+      return NextResponse.json({ sources: [], failedBatches: 0, warnings: [] });
+    }
 
-    console.log(`✅ Collected ${allEvents.length} events from ${batches.length} batch(es)`);
+    const { events, failedBatches, warnings } = await fetchAllSnapshotBatches(context, batches);
+    cacheCompleteSnapshots(cacheKey, events, failedBatches);
+    const cacheable = cacheKey && failedBatches === 0 && events.length > 0;
 
-    return NextResponse.json({ sources: allEvents });
+    return NextResponse.json(
+      { sources: events, failedBatches, warnings },
+      { headers: cacheable ? cachedResponseHeaders(cacheKey) : { 'Cache-Control': 'no-store' } }
+    );
 
   } catch (error) {
+    if (error instanceof PosthogError) {
+      return posthogErrorResponse(error, 'Failed to fetch recording snapshots');
+    }
     console.error('Error fetching snapshots:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
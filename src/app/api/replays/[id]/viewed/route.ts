@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolvePosthogHost } from '@/lib/posthog-host';
+import { getSessionCredentials } from '@/lib/session';
+import {
+  createPosthogClient,
+  getRecordingApiPath,
+  isValidRecordingId,
+  PosthogError,
+  posthogErrorResponse,
+} from '@/lib/posthog-client';
+
+// Mark a recording as viewed in PostHog, the same way PostHog's own player
+// does: by loading the recording with `save_view=true`.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const credentials = getSessionCredentials(request);
+    if (!credentials) {
+      return NextResponse.json(
+        { error: 'Not logged in' },
+        { status: 401 }
+      );
+    }
+
+    if (!isValidRecordingId(id)) {
+      return NextResponse.json(
+        { error: 'Invalid recording ID' },
+        { status: 400 }
+      );
+    }
+    const { projectId, apiKey, host } = credentials;
+
+    const posthogDomain = resolvePosthogHost(host);
+    if (!posthogDomain) {
+      return NextResponse.json(
+        { error: 'PostHog host is not allowed' },
+        { status: 400 }
+      );
+    }
+
+    const posthog = createPosthogClient({ host: posthogDomain, apiKey });
+    await posthog.getJson<unknown>(`${getRecordingApiPath(projectId, id)}?save_view=true`);
+
+    return NextResponse.json({ viewed: true });
+
+  } catch (error) {
+    if (error instanceof PosthogError) {
+      return posthogErrorResponse(error, 'Failed to mark recording as viewed');
+    }
+    console.error('Error marking recording as viewed:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
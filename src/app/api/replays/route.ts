@@ -1,73 +1,102 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SessionRecording, SessionRecordingsResponse } from '@/types/posthog';
+import { ReplaysPageResponse, SessionRecording, SessionRecordingsResponse } from '@/types/posthog';
+import { resolvePosthogHost } from '@/lib/posthog-host';
+import { getSessionCredentials } from '@/lib/session';
+import { createPosthogClient, getRecordingsApiPath, PosthogError, posthogErrorResponse } from '@/lib/posthog-client';
+import {
+  buildRecordingsQuery,
+  matchesRecordingFilters,
+  parseRecordingFilters,
+  parseRecordingsLimit,
+} from '@/lib/recording-filters';
+import { cursorFromNextUrl, decodeRecordingsCursor, encodeRecordingsCursor } from '@/lib/recordings-cursor';
 
-export async function POST(request: NextRequest) {
+// GET /api/replays?filters=<json>&cursor=<cursor>&limit=<n>
+export async function GET(request: NextRequest) {
   try {
-    const { projectId, apiKey } = await request.json();
+    const credentials = getSessionCredentials(request);
+    if (!credentials) {
+      return NextResponse.json(
+        { error: 'Not logged in' },
+        { status: 401 }
+      );
+    }
+    const { projectId, apiKey, host } = credentials;
 
-    // Validate inputs
-    if (!projectId || !apiKey) {
+    const { searchParams } = request.nextUrl;
+    const cursor = searchParams.get('cursor');
+    const rawLimit = searchParams.get('limit');
+    let rawFilters: unknown;
+    try {
+      const filtersParam = searchParams.get('filters');
+      rawFilters = filtersParam ? JSON.parse(filtersParam) : undefined;
+    } catch {
       return NextResponse.json(
-        { error: 'Project ID and API Key are required' },
+        { error: 'Invalid filters: not valid JSON' },
         { status: 400 }
       );
     }
 
     // Determine the correct PostHog domain (defaulting to US)
-    const posthogDomain = 'https://us.posthog.com';
+    const posthogDomain = resolvePosthogHost(host);
+    if (!posthogDomain) {
+      return NextResponse.json(
+        { error: 'PostHog host is not allowed' },
+        { status: 400 }
+      );
+    }
 
-    // Fetch MORE recordings initially since we'll filter many out
-    // We want 10 good recordings, so fetch 50 to account for filtering
-    const response = await fetch(
-      `${posthogDomain}/api/projects/${projectId}/session_recordings?limit=50`,
-      {
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-        },
-      }
-    );
+    const parsedFilters = parseRecordingFilters(rawFilters);
+    if ('error' in parsedFilters) {
+      return NextResponse.json(
+        { error: `Invalid filters: ${parsedFilters.error}` },
+        { status: 400 }
+      );
+    }
+    const { filters } = parsedFilters;
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
+    // No cursor means the first page
+    const offset = cursor ? decodeRecordingsCursor(cursor) : 0;
+    if (offset === null) {
       return NextResponse.json(
-        { 
-          error: 'Failed to fetch recordings from PostHog',
-          details: errorData 
-        },
-        { status: response.status }
+        { error: 'Invalid cursor' },
+        { status: 400 }
       );
     }
 
-    const data: SessionRecordingsResponse = await response.json();
+    // Fetch MORE recordings than we show since some get filtered out locally
+    const query = buildRecordingsQuery(filters, parseRecordingsLimit(rawLimit));
+    if (offset > 0) {
+      query.set('offset', String(offset));
+    }
+    const posthog = createPosthogClient({ host: posthogDomain, apiKey });
+    const data = await posthog.getJson<SessionRecordingsResponse>(
+      `${getRecordingsApiPath(projectId)}?${query}`,
+      { signal: request.signal }
+    );
     
-    // Filter recordings based on quality criteria
-    const filteredRecordings = data.results.filter((recording: SessionRecording) => {
-      // Must be at least 30 seconds long
-      const isLongEnough = recording.recording_duration >= 30;
-      
-      // Must have at least 1 interaction (click or keypress)
-      const hasInteraction = (recording.click_count + recording.keypress_count) >= 1;
-      
-      // Must be completed (not still ongoing)
-      const isComplete = recording.ongoing === false;
-      
-      return isLongEnough && hasInteraction && isComplete;
-    });
+    // Apply the filters locally too, PostHog can't evaluate all of them
+    const filteredRecordings = data.results.filter((recording: SessionRecording) =>
+      matchesRecordingFilters(recording, filters)
+    );
 
     console.log(`📊 Filtered ${data.results.length} recordings down to ${filteredRecordings.length}`);
-    console.log(`   - Duration >= 30s: ${data.results.filter(r => r.recording_duration >= 30).length}`);
-    console.log(`   - Has interaction: ${data.results.filter(r => (r.click_count + r.keypress_count) >= 1).length}`);
-    console.log(`   - Is complete: ${data.results.filter(r => !r.ongoing).length}`);
 
-    // Return all filtered recordings (removed the .slice(0, 10) limit)
-    return NextResponse.json({
-      count: filteredRecordings.length,
-      next: data.next,
-      previous: data.previous,
+    // Older PostHog versions only send `next`, newer ones only `has_next`
+    const hasNext = data.has_next ?? Boolean(data.next);
+    const page: ReplaysPageResponse = {
+      hasNext,
+      next: hasNext
+        ? cursorFromNextUrl(data.next ?? null) ?? encodeRecordingsCursor(offset + data.results.length)
+        : null,
       results: filteredRecordings,
-    });
+    };
+    return NextResponse.json(page);
 
   } catch (error) {
+    if (error instanceof PosthogError) {
+      return posthogErrorResponse(error, 'Failed to fetch recordings from PostHog');
+    }
     console.error('Error fetching replays:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
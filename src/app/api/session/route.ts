@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolvePosthogHost } from '@/lib/posthog-host';
+import { checkPosthogCredentials } from '@/lib/posthog-credentials';
+import {
+  addSessionProfile,
+  clearSessionCookie,
+  getSessionApiKey,
+  MAX_HOST_LENGTH,
+  MAX_LABEL_LENGTH,
+  MAX_PROJECT_ID_LENGTH,
+  readSession,
+  removeSessionProfile,
+  SessionTooLargeError,
+  setSessionCookie,
+  toSessionState,
+  type SessionData,
+} from '@/lib/session';
+
+function sessionResponse(session: SessionData) {
+  const response = NextResponse.json(toSessionState(session));
+  try {
+    setSessionCookie(response, session);
+  } catch (error) {
+    if (error instanceof SessionTooLargeError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    throw error;
+  }
+  return response;
+}
+
+// Who is logged in and which projects they can switch to. Never includes keys.
+export async function GET(request: NextRequest) {
+  const session = readSession(request);
+  const state = session && toSessionState(session);
+  if (!state) {
+    return NextResponse.json(
+      { error: 'Not logged in' },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.json(state);
+}
+
+// Log in, or add another project to the session. The key is checked against
+// PostHog once, then kept in the session.
+export async function POST(request: NextRequest) {
+  try {
+    const { projectId, apiKey: rawApiKey, keyRef, host, label } = await request.json();
+
+    if (!projectId) {
+      return NextResponse.json(
+        { error: 'Project ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (String(projectId).length > MAX_PROJECT_ID_LENGTH) {
+      return NextResponse.json(
+        { error: 'Project ID is too long' },
+        { status: 400 }
+      );
+    }
+
+    const posthogDomain = resolvePosthogHost(host);
+    if (!posthogDomain || posthogDomain.length > MAX_HOST_LENGTH) {
+      return NextResponse.json(
+        { error: 'PostHog host is not allowed. Self-hosted instances have to be listed in POSTHOG_ALLOWED_HOSTS on the server.' },
+        { status: 400 }
+      );
+    }
+
+    const apiKey = rawApiKey ? String(rawApiKey) : keyRef ? getSessionApiKey(request, String(keyRef), posthogDomain) : null;
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'API Key is required' },
+        { status: 400 }
+      );
+    }
+
+    const check = await checkPosthogCredentials(posthogDomain, apiKey, String(projectId));
+    if (!check.ok) {
+      return NextResponse.json(
+        { error: check.message, code: check.problem },
+        { status: check.status }
+      );
+    }
+
+    const projectName = check.projects.find((project) => String(project.id) === String(projectId))?.name;
+    // Every profile's label goes into the cookie, long ones are cut short
+    const profileLabel = (typeof label === 'string' && label.trim()) || projectName || `Project ${projectId}`;
+    const session = addSessionProfile(readSession(request), {
+      projectId: String(projectId),
+      host: posthogDomain,
+      label: profileLabel.slice(0, MAX_LABEL_LENGTH),
+      apiKey: rawApiKey ? apiKey : undefined,
+      keyRef: rawApiKey ? undefined : String(keyRef),
+    });
+    return sessionResponse(session);
+
+  } catch (error) {
+    console.error('Error logging in:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Switch the active project: { profileId }
+export async function PATCH(request: NextRequest) {
+  try {
+    const { profileId } = await request.json();
+    const session = readSession(request);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Not logged in' },
+        { status: 401 }
+      );
+    }
+
+    if (!session.profiles.some((profile) => profile.id === profileId)) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    return sessionResponse({ ...session, activeProfileId: profileId });
+
+  } catch (error) {
+    console.error('Error switching project:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Log out, or with ?profile=<id> just forget that one project
+export async function DELETE(request: NextRequest) {
+  const profileId = request.nextUrl.searchParams.get('profile');
+  const session = readSession(request);
+  const remaining = session && profileId ? removeSessionProfile(session, profileId) : null;
+
+  if (remaining) {
+    return sessionResponse(remaining);
+  }
+
+  const response = NextResponse.json({ loggedOut: true });
+  clearSessionCookie(response);
+  return response;
+}
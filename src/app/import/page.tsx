@@ -0,0 +1,6 @@
+import ReplayImport from '@/components/ReplayImport';
+
+// Play exported replay bundles, no login needed
+export default function ImportPage() {
+  return <ReplayImport />;
+}
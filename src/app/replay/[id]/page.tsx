@@ -0,0 +1,6 @@
+import FeedApp from '@/components/FeedApp';
+
+// Deep link into the feed: /replay/<recording id>?t=<seconds>
+export default function ReplayPage() {
+  return <FeedApp />;
+}
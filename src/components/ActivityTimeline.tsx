@@ -0,0 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import { ACTIVITY_KINDS, type ActivityIndex, type ActivityKind } from '@/lib/activity-index';
+import { formatDuration } from '@/lib/format';
+import { cn } from '@/lib/utils';
+
+interface ActivityTimelineProps {
+  index: ActivityIndex;
+  currentTimeMs: number;
+  width: number;
+  onSeek: (timeOffsetMs: number) => void;
+}
+
+export const ACTIVITY_STYLES: Record<ActivityKind, { label: string; color: string }> = {
+  click: { label: 'Clicks', color: 'bg-sky-400' },
+  rage_click: { label: 'Rage clicks', color: 'bg-orange-500' },
+  navigation: { label: 'Navigations', color: 'bg-emerald-400' },
+  input: { label: 'Inputs', color: 'bg-violet-400' },
+  error: { label: 'Errors', color: 'bg-red-500' },
+  custom: { label: 'Custom', color: 'bg-yellow-300' },
+};
+
+// Drawn later = on top, so the rarer, more interesting kinds stay visible
+const DRAW_ORDER: ActivityKind[] = ['click', 'input', 'custom', 'navigation', 'rage_click', 'error'];
+
+export default function ActivityTimeline({ index, currentTimeMs, width, onSeek }: ActivityTimelineProps) {
+  const [hiddenKinds, setHiddenKinds] = useState<Set<ActivityKind>>(new Set());
+  const duration = Math.max(index.durationMs, 1);
+
+  const toggleKind = (kind: ActivityKind) => {
+    setHiddenKinds((prev) => {
+      const next = new Set(prev);
+      if (next.has(kind)) {
+        next.delete(kind);
+      } else {
+        next.add(kind);
+      }
+      return next;
+    });
+  };
+
+  const handleTrackClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+    onSeek(fraction * duration);
+  };
+
+  const visibleMarkers = DRAW_ORDER.flatMap((kind) =>
+    hiddenKinds.has(kind) ? [] : index.markers.filter((marker) => marker.kind === kind)
+  );
+
+  return (
+    <div className="mt-2 text-[10px] text-white/70" style={{ width }}>
+      <div
+        className="relative h-4 cursor-pointer rounded bg-white/10"
+        onClick={handleTrackClick}
+      >
+        {visibleMarkers.map((marker, i) => (
+          <button
+            key={`${marker.kind}-${marker.timestamp}-${i}`}
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onSeek(marker.offsetMs);
+            }}
+            className={cn(
+              'absolute top-0 h-full w-1 -translate-x-1/2 rounded-sm opacity-80 hover:opacity-100 hover:scale-x-150',
+              ACTIVITY_STYLES[marker.kind].color
+            )}
+            style={{ left: `${(marker.offsetMs / duration) * 100}%` }}
+            title={`${formatDuration(marker.offsetMs / 1000)} · ${marker.label}`}
+          />
+        ))}
+        <div
+          className="pointer-events-none absolute top-[-2px] bottom-[-2px] w-0.5 bg-white"
+          style={{ left: `${Math.min(currentTimeMs / duration, 1) * 100}%` }}
+        />
+      </div>
+
+      <div className="mt-1 flex flex-wrap gap-x-3 gap-y-1">
+        {ACTIVITY_KINDS.filter((kind) => index.counts[kind] > 0).map((kind) => (
+          <button
+            key={kind}
+            type="button"
+            onClick={() => toggleKind(kind)}
+            className={cn('inline-flex items-center gap-1', hiddenKinds.has(kind) && 'opacity-40')}
+          >
+            <span className={cn('inline-block h-2 w-2 rounded-sm', ACTIVITY_STYLES[kind].color)} />
+            {ACTIVITY_STYLES[kind].label} {index.counts[kind]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
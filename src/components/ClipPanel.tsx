@@ -0,0 +1,178 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Download, Loader2, X } from 'lucide-react';
+import { formatDuration } from '@/lib/format';
+import { readNdjsonStream } from '@/lib/snapshot-stream';
+import type { ClipFormat, RenderStreamMessage } from '@/types/posthog';
+
+interface ClipPanelProps {
+  recordingId: string;
+  windowId: string | null; // for sessions with several windows, the one being played
+  startMs: number; // where the player was when the panel opened
+  recordingDurationMs: number;
+  onClose: () => void;
+}
+
+const CLIP_LENGTHS = [5, 10, 15, 30, 60];
+const FORMATS: { format: ClipFormat; label: string }[] = [
+  { format: 'gif', label: 'GIF' },
+  { format: 'mp4', label: 'MP4' },
+  { format: 'webm', label: 'WebM' },
+];
+
+const STAGE_LABELS: Record<Extract<RenderStreamMessage, { type: 'progress' }>['stage'], string> = {
+  queued: 'Waiting for another clip to finish',
+  loading: 'Loading the recording',
+  rendering: 'Rendering frames',
+  encoding: 'Encoding',
+};
+
+type RenderState =
+  | { status: 'idle' }
+  | { status: 'rendering'; message: Extract<RenderStreamMessage, { type: 'progress' }> }
+  | { status: 'done'; url: string; filename: string }
+  | { status: 'error'; message: string };
+
+const toggleClassName = (active: boolean) =>
+  active ? 'h-7 px-2 text-white bg-white/20 hover:bg-white/20' : 'h-7 px-2 text-white/60 hover:bg-white/10';
+
+export default function ClipPanel({ recordingId, windowId, startMs, recordingDurationMs, onClose }: ClipPanelProps) {
+  const [lengthSeconds, setLengthSeconds] = useState(10);
+  const [format, setFormat] = useState<ClipFormat>('gif');
+  const [state, setState] = useState<RenderState>({ status: 'idle' });
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Closing the panel cancels a render in progress
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Never past the end of the recording
+  const durationMs = Math.max(1000, Math.min(lengthSeconds * 1000, recordingDurationMs - startMs));
+
+  const handleRender = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setState({ status: 'rendering', message: { type: 'progress', stage: 'queued', progress: 0 } });
+
+    try {
+      const response = await fetch(`/api/replays/${encodeURIComponent(recordingId)}/render`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ startMs: Math.round(startMs), durationMs: Math.round(durationMs), format, windowId }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+
+      let finished = false;
+      await readNdjsonStream<RenderStreamMessage>(response, (message) => {
+        if (message.type === 'progress') {
+          setState({ status: 'rendering', message });
+        } else if (message.type === 'done') {
+          finished = true;
+          const url = `/api/replays/${encodeURIComponent(recordingId)}/render?render=${encodeURIComponent(message.renderId)}`;
+          setState({ status: 'done', url, filename: message.filename });
+          // Start the download right away, the link stays for another go
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = message.filename;
+          link.click();
+        } else {
+          finished = true;
+          setState({ status: 'error', message: message.message });
+        }
+      });
+
+      if (!finished) {
+        throw new Error('The render stopped before finishing');
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Failed to render clip:', err);
+      setState({ status: 'error', message: err instanceof Error ? err.message : 'Render failed' });
+    }
+  };
+
+  const isRendering = state.status === 'rendering';
+
+  return (
+    <div className="w-[min(300px,calc(100vw-2rem))] rounded-lg border border-white/10 bg-black/90 p-4 text-white shadow-xl backdrop-blur">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-semibold">
+          Clip from {formatDuration(startMs / 1000)}
+        </h2>
+        <Button variant="ghost" size="icon-sm" onClick={onClose} className="text-white hover:bg-white/10">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-3 text-sm">
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="mr-1 text-xs text-white/70">Length</span>
+          {CLIP_LENGTHS.map((seconds) => (
+            <Button
+              key={seconds}
+              variant="ghost"
+              size="sm"
+              disabled={isRendering}
+              onClick={() => setLengthSeconds(seconds)}
+              className={toggleClassName(seconds === lengthSeconds)}
+            >
+              {seconds}s
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="mr-1 text-xs text-white/70">Format</span>
+          {FORMATS.map((option) => (
+            <Button
+              key={option.format}
+              variant="ghost"
+              size="sm"
+              disabled={isRendering}
+              onClick={() => setFormat(option.format)}
+              className={toggleClassName(option.format === format)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        {state.status === 'rendering' && (
+          <div className="space-y-1">
+            <p className="text-xs text-white/70">
+              {STAGE_LABELS[state.message.stage]}
+              {state.message.stage === 'rendering' && ` ${Math.round(state.message.progress * 100)}%`}
+            </p>
+            <div className="h-1 overflow-hidden rounded bg-white/10">
+              <div
+                className="h-full bg-white transition-[width]"
+                style={{ width: `${state.message.stage === 'rendering' ? state.message.progress * 100 : state.message.stage === 'encoding' ? 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+        {state.status === 'error' && <p className="text-xs text-red-300">{state.message}</p>}
+        {state.status === 'done' && (
+          <a href={state.url} download={state.filename} className="inline-flex items-center gap-1 text-xs underline">
+            <Download className="h-3 w-3" />
+            {state.filename}
+          </a>
+        )}
+
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleRender} disabled={isRendering}>
+            {isRendering && <Loader2 className="h-4 w-4 animate-spin" />}
+            Render {formatDuration(durationMs / 1000)}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
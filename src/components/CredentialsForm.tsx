@@ -1,70 +1,321 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
+import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { CheckCircle2, Loader2 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  POSTHOG_CLOUD_HOSTS,
+  DEFAULT_POSTHOG_HOST,
+  getRegionForHost,
+  normalizePosthogHost,
+  type PosthogRegion,
+} from '@/lib/posthog-host';
+import type { PosthogProject } from '@/lib/posthog-credentials';
+import type { ProjectLogin, SavedKey } from '@/types/posthog';
 
 interface CredentialsFormProps {
-  onSubmit: (credentials: { projectId: string; apiKey: string }) => void;
-  initialValues?: { projectId: string; apiKey: string };
+  // Rejects with a message to show when the credentials don't work
+  onSubmit: (login: ProjectLogin) => Promise<void>;
+  initialValues?: Partial<ProjectLogin>;
+  savedKeys?: SavedKey[]; // keys already in the session, when adding a project
+  onCancel?: () => void;
 }
 
-export default function CredentialsForm({ onSubmit, initialValues }: CredentialsFormProps) {
+// Value of the project dropdown's "type it in" option
+const OTHER_PROJECT = 'other';
+
+const selectClassName = 'border-input h-9 w-full rounded-md border bg-transparent px-3 py-1 text-base shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] md:text-sm';
+
+type KeyCheck =
+  | { status: 'idle' | 'checking' }
+  | { status: 'valid'; projects: PosthogProject[] }
+  | { status: 'invalid'; message: string };
+
+export default function CredentialsForm({ onSubmit, initialValues, savedKeys = [], onCancel }: CredentialsFormProps) {
+  const initialHost = initialValues?.host || DEFAULT_POSTHOG_HOST;
   const [projectId, setProjectId] = useState(initialValues?.projectId || '');
   const [apiKey, setApiKey] = useState(initialValues?.apiKey || '');
+  // A saved key to reuse, or '' to type in a new one
+  const [keyRef, setKeyRef] = useState(
+    savedKeys.find((key) => key.host === initialHost)?.keyRef ?? ''
+  );
+  const [label, setLabel] = useState(initialValues?.label || '');
+  const [region, setRegion] = useState<PosthogRegion | 'custom'>(getRegionForHost(initialHost));
+  const [customHost, setCustomHost] = useState(
+    getRegionForHost(initialHost) === 'custom' ? initialHost : ''
+  );
+  const [hostError, setHostError] = useState<string | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [keyCheck, setKeyCheck] = useState<KeyCheck>({ status: 'idle' });
+  const [isOtherProject, setIsOtherProject] = useState(false);
+  // Drops answers for a key or host that has since been edited
+  const keyCheckIdRef = useRef(0);
+
+  const getHost = () => (region === 'custom' ? normalizePosthogHost(customHost) : POSTHOG_CLOUD_HOSTS[region]);
+
+  // Saved keys only work against the host they were saved for
+  const hostKeys = savedKeys.filter((key) => key.host === getHost());
+  const activeKeyRef = hostKeys.some((key) => key.keyRef === keyRef) ? keyRef : '';
+
+  // Check the key as soon as it's entered so problems show up here, and list
+  // its projects for the dropdown
+  const checkKey = async (host: string | null = getHost(), ref: string = activeKeyRef) => {
+    const checkId = ++keyCheckIdRef.current;
+    if (!host || (!ref && !apiKey)) {
+      setKeyCheck({ status: 'idle' });
+      return;
+    }
 
-  const handleSubmit = (e: React.FormEvent) => {
+    setKeyCheck({ status: 'checking' });
+    try {
+      const response = await fetch('/api/credentials', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ref ? { keyRef: ref, host } : { apiKey, host }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (checkId !== keyCheckIdRef.current) return;
+
+      if (!response.ok) {
+        setKeyCheck({ status: 'invalid', message: data.error || 'Could not check this key' });
+        return;
+      }
+
+      const projects: PosthogProject[] = data.projects ?? [];
+      setKeyCheck({ status: 'valid', projects });
+      const hasCurrentProject = projects.some((project) => String(project.id) === projectId);
+      if (projects.length > 0 && !hasCurrentProject) {
+        if (projectId) {
+          setIsOtherProject(true);
+        } else {
+          setProjectId(String(projects[0].id));
+        }
+      }
+    } catch (err) {
+      if (checkId !== keyCheckIdRef.current) return;
+      console.error('Error checking API key:', err);
+      setKeyCheck({ status: 'invalid', message: 'Could not reach the server to check this key' });
+    }
+  };
+
+  const projects = keyCheck.status === 'valid' ? keyCheck.projects : [];
+  const showProjectPicker = projects.length > 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (projectId && apiKey) {
-      onSubmit({ projectId, apiKey });
+
+    const host = getHost();
+
+    if (!host) {
+      setHostError('Enter a valid URL, e.g. https://posthog.example.com');
+      return;
+    }
+
+    setHostError(null);
+    if (!projectId || (!activeKeyRef && !apiKey)) return;
+
+    setSubmitError(null);
+    setIsSubmitting(true);
+    try {
+      await onSubmit({
+        projectId,
+        host,
+        label: label.trim() || undefined,
+        ...(activeKeyRef ? { keyRef: activeKeyRef } : { apiKey }),
+      });
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to log in');
+      setIsSubmitting(false);
     }
   };
 
   return (
     <Card className="max-w-md w-full mx-auto">
       <CardHeader>
-        <CardTitle className="text-2xl text-center">PostHog Replay Viewer</CardTitle>
+        <CardTitle className="text-2xl text-center">
+          {onCancel ? 'Add a Project' : 'PostHog Replay Viewer'}
+        </CardTitle>
         <CardDescription className="text-center">
-          Enter your PostHog credentials to view session replays
+          {onCancel
+            ? 'Add another PostHog project to switch between'
+            : 'Enter your PostHog credentials to view session replays'}
         </CardDescription>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="projectId">PostHog Project ID</Label>
-            <Input
-              id="projectId"
-              type="text"
-              value={projectId}
-              onChange={(e) => setProjectId(e.target.value)}
-              placeholder="12345"
-              required
-            />
+            <Label htmlFor="region">PostHog Host</Label>
+            <select
+              id="region"
+              value={region}
+              onChange={(e) => {
+                const nextRegion = e.target.value as PosthogRegion | 'custom';
+                const nextHost = nextRegion === 'custom' ? normalizePosthogHost(customHost) : POSTHOG_CLOUD_HOSTS[nextRegion];
+                const nextKeyRef = savedKeys.find((key) => key.host === nextHost)?.keyRef ?? '';
+                setRegion(nextRegion);
+                setKeyRef(nextKeyRef);
+                // The old answer was for a different host
+                checkKey(nextHost, nextKeyRef);
+              }}
+              className={selectClassName}
+            >
+              <option value="us">US Cloud (us.posthog.com)</option>
+              <option value="eu">EU Cloud (eu.posthog.com)</option>
+              <option value="custom">Self-hosted</option>
+            </select>
+            {region === 'custom' && (
+              <Input
+                id="customHost"
+                type="url"
+                value={customHost}
+                onChange={(e) => setCustomHost(e.target.value)}
+                onBlur={() => checkKey()}
+                placeholder="https://posthog.example.com"
+                aria-invalid={!!hostError}
+                required
+              />
+            )}
+            {hostError && (
+              <p className="text-xs text-destructive">{hostError}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="apiKey">Personal API Key</Label>
+            {hostKeys.length > 0 && (
+              <select
+                id="savedKey"
+                value={activeKeyRef}
+                onChange={(e) => {
+                  setKeyRef(e.target.value);
+                  checkKey(getHost(), e.target.value);
+                }}
+                className={selectClassName}
+              >
+                {hostKeys.map((key) => (
+                  <option key={key.keyRef} value={key.keyRef}>
+                    Saved key ending in {key.hint}
+                  </option>
+                ))}
+                <option value="">Use a different key...</option>
+              </select>
+            )}
+            {activeKeyRef ? (
+              keyCheck.status === 'idle' && (
+                <Button type="button" variant="link" size="sm" className="h-auto px-0" onClick={() => checkKey()}>
+                  List this key&apos;s projects
+                </Button>
+              )
+            ) : (
+              <Input
+                id="apiKey"
+                type="password"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                onBlur={() => checkKey()}
+                placeholder="phx_..."
+                aria-invalid={keyCheck.status === 'invalid'}
+                required
+              />
+            )}
+            {keyCheck.status === 'checking' && (
+              <p className="text-xs text-muted-foreground inline-flex items-center gap-1">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Checking key...
+              </p>
+            )}
+            {keyCheck.status === 'invalid' && (
+              <p className="text-xs text-destructive">{keyCheck.message}</p>
+            )}
+            {keyCheck.status === 'valid' && (
+              <p className="text-xs text-muted-foreground inline-flex items-center gap-1">
+                <CheckCircle2 className="h-3 w-3 text-green-600" />
+                Key works{projects.length > 0 ? `, ${projects.length} project${projects.length === 1 ? '' : 's'} available` : ''}
+              </p>
+            )}
             <p className="text-xs text-muted-foreground">
-              Find this in PostHog under Project Settings
+              Create one in PostHog under Personal API Keys, with the session_recording:read
+              scope. It&apos;s checked once and then kept server-side, never in this browser.
             </p>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="apiKey">Personal API Key</Label>
+            <Label htmlFor="projectId">PostHog Project</Label>
+            {showProjectPicker && (
+              <select
+                id="projectId"
+                value={isOtherProject ? OTHER_PROJECT : projectId}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  setIsOtherProject(value === OTHER_PROJECT);
+                  if (value !== OTHER_PROJECT) {
+                    setProjectId(value);
+                  }
+                }}
+                className={selectClassName}
+              >
+                {projects.map((project) => (
+                  <option key={project.id} value={String(project.id)}>
+                    {project.name} ({project.id})
+                  </option>
+                ))}
+                <option value={OTHER_PROJECT}>Other project ID...</option>
+              </select>
+            )}
+            {(!showProjectPicker || isOtherProject) && (
+              <>
+                <Input
+                  id={showProjectPicker ? 'customProjectId' : 'projectId'}
+                  type="text"
+                  value={projectId}
+                  onChange={(e) => setProjectId(e.target.value)}
+                  placeholder="12345"
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  Find this in PostHog under Project Settings
+                </p>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="label">Label (optional)</Label>
             <Input
-              id="apiKey"
-              type="password"
-              value={apiKey}
-              onChange={(e) => setApiKey(e.target.value)}
-              placeholder="phx_..."
-              required
+              id="label"
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Defaults to the project name"
             />
-            <p className="text-xs text-muted-foreground">
-              Create one in PostHog under Personal API Keys
-            </p>
           </div>
 
-          <Button type="submit" className="w-full">
-            Load Replays
+          {submitError && (
+            <p className="text-sm text-destructive">{submitError}</p>
+          )}
+
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+            {onCancel ? 'Add Project' : 'Load Replays'}
           </Button>
+          {onCancel && (
+            <Button type="button" variant="ghost" className="w-full" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          {!onCancel && (
+            <p className="text-center text-sm text-muted-foreground">
+              Got a replay bundle?{' '}
+              <Link href="/import" className="underline hover:text-foreground">
+                Open it without logging in
+              </Link>
+            </p>
+          )}
         </form>
       </CardContent>
     </Card>
@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { X } from 'lucide-react';
+import {
+  CONSOLE_LEVELS,
+  findActiveEntry,
+  type ConsoleEntry,
+  type ConsoleLevel,
+  type DevtoolsLog,
+  type NetworkEntry,
+} from '@/lib/devtools-log';
+import { formatDuration } from '@/lib/format';
+import { cn } from '@/lib/utils';
+
+interface DevtoolsPanelProps {
+  log: DevtoolsLog;
+  currentTimeMs: number;
+  onSeek: (timeOffsetMs: number) => void;
+  onClose: () => void;
+}
+
+type Tab = 'console' | 'network';
+
+const LEVEL_STYLES: Record<ConsoleLevel, string> = {
+  log: 'text-white/80',
+  info: 'text-sky-300',
+  warn: 'text-yellow-300',
+  error: 'text-red-400',
+  debug: 'text-white/50',
+};
+
+function statusColor(status?: number): string {
+  if (status === undefined || status === 0) return 'text-white/50';
+  if (status >= 500) return 'text-red-400';
+  if (status >= 400) return 'text-orange-300';
+  return 'text-emerald-300';
+}
+
+function shortUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.pathname + parsed.search;
+  } catch {
+    return url;
+  }
+}
+
+export default function DevtoolsPanel({ log, currentTimeMs, onSeek, onClose }: DevtoolsPanelProps) {
+  const [tab, setTab] = useState<Tab>(log.console.length === 0 && log.network.length > 0 ? 'network' : 'console');
+  const [levels, setLevels] = useState<Set<ConsoleLevel>>(new Set(CONSOLE_LEVELS));
+  const activeRowRef = useRef<HTMLLIElement>(null);
+
+  const consoleEntries = useMemo(
+    () => log.console.filter((entry) => levels.has(entry.level)),
+    [log.console, levels]
+  );
+  const entries: (ConsoleEntry | NetworkEntry)[] = tab === 'console' ? consoleEntries : log.network;
+  const activeIndex = findActiveEntry(entries, currentTimeMs);
+
+  // Keep the entry for the current moment in view as playback moves
+  useEffect(() => {
+    activeRowRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex, tab]);
+
+  const toggleLevel = (level: ConsoleLevel) => {
+    setLevels((prev) => {
+      const next = new Set(prev);
+      if (next.has(level)) {
+        next.delete(level);
+      } else {
+        next.add(level);
+      }
+      return next;
+    });
+  };
+
+  const levelCounts = useMemo(() => {
+    const counts = Object.fromEntries(CONSOLE_LEVELS.map((level) => [level, 0])) as Record<ConsoleLevel, number>;
+    log.console.forEach((entry) => counts[entry.level]++);
+    return counts;
+  }, [log.console]);
+
+  return (
+    <div className="flex h-full w-[min(380px,calc(100vw-2rem))] flex-col rounded-lg border border-white/10 bg-black/90 text-white shadow-xl backdrop-blur">
+      <div className="flex items-center justify-between border-b border-white/10 px-3 py-2">
+        <div className="flex gap-3 text-sm font-semibold">
+          {(['console', 'network'] as Tab[]).map((t) => (
+            <button
+              key={t}
+              type="button"
+              onClick={() => setTab(t)}
+              className={tab === t ? 'text-white' : 'text-white/50 hover:text-white'}
+            >
+              {t === 'console' ? `Console (${log.console.length})` : `Network (${log.network.length})`}
+            </button>
+          ))}
+        </div>
+        <Button variant="ghost" size="icon-sm" onClick={onClose} className="text-white hover:bg-white/10">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {tab === 'console' && (
+        <div className="flex flex-wrap gap-1 border-b border-white/10 px-3 py-2 text-xs">
+          {CONSOLE_LEVELS.map((level) => (
+            <button
+              key={level}
+              type="button"
+              onClick={() => toggleLevel(level)}
+              className={cn(
+                'rounded border px-1.5 py-0.5',
+                levels.has(level) ? 'border-white/30 bg-white/10' : 'border-white/10 text-white/40'
+              )}
+            >
+              {level} {levelCounts[level]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <ul className="flex-1 overflow-y-auto font-mono text-xs">
+        {entries.length === 0 && (
+          <li className="px-3 py-2 font-sans text-white/60">
+            {tab === 'console' ? 'No console output recorded.' : 'No network requests recorded.'}
+          </li>
+        )}
+        {entries.map((entry, i) => (
+          <li
+            key={`${entry.timestamp}-${i}`}
+            ref={i === activeIndex ? activeRowRef : undefined}
+            onClick={() => onSeek(Math.max(0, entry.offsetMs))}
+            className={cn(
+              'flex cursor-pointer gap-2 border-b border-white/5 px-3 py-1 hover:bg-white/5',
+              i === activeIndex && 'bg-white/15',
+              i > activeIndex && 'opacity-50'
+            )}
+          >
+            <span className="shrink-0 text-white/40">{formatDuration(Math.max(0, entry.offsetMs) / 1000)}</span>
+            {entry.kind === 'console' ? (
+              <span className={cn('min-w-0 flex-1 break-words', LEVEL_STYLES[entry.level])}>
+                {entry.message}
+              </span>
+            ) : (
+              <span className="flex min-w-0 flex-1 gap-2">
+                <span className="shrink-0 text-white/70">{entry.method}</span>
+                <span className={cn('shrink-0', statusColor(entry.status))}>{entry.status ?? '—'}</span>
+                <span className="min-w-0 flex-1 truncate" title={entry.url}>{shortUrl(entry.url)}</span>
+                {entry.durationMs !== undefined && (
+                  <span className="shrink-0 text-white/40">{Math.round(entry.durationMs)}ms</span>
+                )}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
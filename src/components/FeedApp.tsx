@@ -0,0 +1,170 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import CredentialsForm from './CredentialsForm';
+import ReplayFeed from './ReplayFeed';
+import { DEFAULT_POSTHOG_HOST } from '@/lib/posthog-host';
+import type { Credentials, ProjectLogin, SessionState } from '@/types/posthog';
+
+// Where older versions kept the raw credentials
+const LEGACY_CREDENTIALS_KEY = 'posthog-credentials';
+
+// `status` tells a rejected login (4xx) apart from one that never got an answer
+class SessionRequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'SessionRequestError';
+  }
+}
+
+async function sessionRequest(init: RequestInit, query = ''): Promise<SessionState | null> {
+  const response = await fetch(`/api/session${query}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new SessionRequestError(data.error || 'Failed to update the session', response.status);
+  }
+  return data.loggedOut ? null : data;
+}
+
+// Log in, or add a project to the session
+function createSession(login: ProjectLogin): Promise<SessionState | null> {
+  return sessionRequest({ method: 'POST', body: JSON.stringify(login) });
+}
+
+// A project's recordings mean nothing in another one, so start from a bare URL
+function resetFeedUrl() {
+  if (window.location.pathname !== '/' || window.location.search) {
+    window.history.pushState(null, '', '/');
+  }
+}
+
+// Credentials an older version left in localStorage
+function readLegacyCredentials(): Credentials | null {
+  try {
+    const item = window.localStorage.getItem(LEGACY_CREDENTIALS_KEY);
+    const parsed = item ? JSON.parse(item) : null;
+    // Credentials saved before hosts were configurable have no host, assume US
+    return parsed?.projectId && parsed?.apiKey
+      ? { ...parsed, host: parsed.host || DEFAULT_POSTHOG_HOST }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// Login form or the feed. Served at / and /replay/[id], ReplayFeed reads its
+// position from the URL itself.
+export default function FeedApp() {
+  const [session, setSession] = useState<SessionState | null>(null);
+  const [isCheckingSession, setIsCheckingSession] = useState(true);
+  const [isAddingProject, setIsAddingProject] = useState(false);
+
+  useEffect(() => {
+    const restoreSession = async () => {
+      try {
+        const legacy = readLegacyCredentials();
+        if (legacy) {
+          console.log('🔐 Moving stored credentials into a server session');
+          try {
+            const migrated = await createSession(legacy);
+            window.localStorage.removeItem(LEGACY_CREDENTIALS_KEY);
+            setSession(migrated);
+            return;
+          } catch (err) {
+            // Kept for next time unless PostHog turned them down for good
+            if (err instanceof SessionRequestError && err.status < 500) {
+              window.localStorage.removeItem(LEGACY_CREDENTIALS_KEY);
+            }
+            console.error('Error moving stored credentials:', err);
+          }
+        }
+
+        const response = await fetch('/api/session');
+        if (response.ok) {
+          setSession(await response.json());
+        }
+      } catch (err) {
+        console.error('Error restoring session:', err);
+      } finally {
+        setIsCheckingSession(false);
+      }
+    };
+
+    restoreSession();
+  }, []);
+
+  const handleCredentialsSubmit = useCallback(async (login: ProjectLogin) => {
+    const nextSession = await createSession(login);
+    if (session && nextSession?.profileId !== session.profileId) {
+      resetFeedUrl();
+    }
+    setSession(nextSession);
+    setIsAddingProject(false);
+  }, [session]);
+
+  const handleSwitchProject = useCallback(async (profileId: string) => {
+    try {
+      const nextSession = await sessionRequest({ method: 'PATCH', body: JSON.stringify({ profileId }) });
+      resetFeedUrl();
+      setSession(nextSession);
+    } catch (err) {
+      console.error('Error switching project:', err);
+    }
+  }, []);
+
+  const handleRemoveProject = useCallback(async (profileId: string) => {
+    try {
+      const nextSession = await sessionRequest({ method: 'DELETE' }, `?profile=${encodeURIComponent(profileId)}`);
+      if (nextSession?.profileId !== session?.profileId) {
+        resetFeedUrl();
+      }
+      setSession(nextSession);
+    } catch (err) {
+      console.error('Error removing project:', err);
+    }
+  }, [session]);
+
+  const handleLogout = useCallback(async () => {
+    setSession(null);
+    await fetch('/api/session', { method: 'DELETE' }).catch((err) => {
+      console.error('Error logging out:', err);
+    });
+  }, []);
+
+  if (isCheckingSession) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {!session || isAddingProject ? (
+        <div className="min-h-screen bg-background py-8 px-4">
+          <CredentialsForm
+            onSubmit={handleCredentialsSubmit}
+            savedKeys={session?.keys}
+            onCancel={session ? () => setIsAddingProject(false) : undefined}
+          />
+        </div>
+      ) : (
+        // Keyed so a different project starts from a clean feed
+        <ReplayFeed
+          key={`${session.host}|${session.projectId}`}
+          session={session}
+          onSwitchProject={handleSwitchProject}
+          onAddProject={() => setIsAddingProject(true)}
+          onRemoveProject={handleRemoveProject}
+          onLogout={handleLogout}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,208 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Loader2, Package, X } from 'lucide-react';
+import { DEFAULT_RECORDING_FILTERS, type RecordingFilters } from '@/lib/recording-filters';
+
+interface FilterPanelProps {
+  filters: RecordingFilters;
+  onApply: (filters: RecordingFilters) => void;
+  // Loaded recordings matching the applied filters, for a batch export
+  resultCount: number;
+  onExportResults: () => void;
+  isExporting: boolean;
+  onClose: () => void;
+}
+
+type NumberField = 'minDuration' | 'maxDuration' | 'minClicks' | 'minKeypresses' | 'minInteractions';
+type TextField = 'startUrlContains' | 'startUrlRegex' | 'personDistinctId' | 'dateFrom' | 'dateTo';
+
+const inputClassName = 'h-8 bg-white/5 border-white/20 text-white placeholder:text-white/40';
+
+export default function FilterPanel({ filters, onApply, resultCount, onExportResults, isExporting, onClose }: FilterPanelProps) {
+  // Edit a draft so the feed only refetches when the user hits Apply
+  const [draft, setDraft] = useState<RecordingFilters>(filters);
+
+  const setNumber = (field: NumberField, value: string) => {
+    setDraft((prev) => ({ ...prev, [field]: value === '' ? undefined : Number(value) }));
+  };
+
+  const setText = (field: TextField, value: string) => {
+    setDraft((prev) => ({ ...prev, [field]: value || undefined }));
+  };
+
+  const setPersonProperty = (part: 'key' | 'value', value: string) => {
+    setDraft((prev) => {
+      const next = { key: '', value: '', ...prev.personProperty, [part]: value };
+      return { ...prev, personProperty: next.key || next.value ? next : undefined };
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onApply(draft);
+  };
+
+  const numberInput = (field: NumberField, label: string, placeholder?: string) => (
+    <div className="space-y-1">
+      <Label htmlFor={field} className="text-xs text-white/70">{label}</Label>
+      <Input
+        id={field}
+        type="number"
+        min={0}
+        value={draft[field] ?? ''}
+        onChange={(e) => setNumber(field, e.target.value)}
+        placeholder={placeholder}
+        className={inputClassName}
+      />
+    </div>
+  );
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="w-[min(420px,calc(100vw-2rem))] max-h-[70vh] overflow-y-auto rounded-lg border border-white/10 bg-black/90 p-4 text-white shadow-xl backdrop-blur"
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-semibold">Filter recordings</h2>
+        <Button type="button" variant="ghost" size="icon-sm" onClick={onClose} className="text-white hover:bg-white/10">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {numberInput('minDuration', 'Min duration (s)')}
+        {numberInput('maxDuration', 'Max duration (s)')}
+        {numberInput('minClicks', 'Min clicks')}
+        {numberInput('minKeypresses', 'Min keypresses')}
+        {numberInput('minInteractions', 'Min clicks + keypresses')}
+      </div>
+
+      <Separator className="my-4 bg-white/10" />
+
+      <div className="space-y-3">
+        <div className="space-y-1">
+          <Label htmlFor="startUrlContains" className="text-xs text-white/70">Start URL contains</Label>
+          <Input
+            id="startUrlContains"
+            value={draft.startUrlContains ?? ''}
+            onChange={(e) => setText('startUrlContains', e.target.value)}
+            placeholder="/checkout"
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="startUrlRegex" className="text-xs text-white/70">Start URL regex</Label>
+          <Input
+            id="startUrlRegex"
+            value={draft.startUrlRegex ?? ''}
+            onChange={(e) => setText('startUrlRegex', e.target.value)}
+            placeholder="^https://app\.example\.com/(settings|billing)"
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <Separator className="my-4 bg-white/10" />
+
+      <div className="space-y-3">
+        <div className="space-y-1">
+          <Label htmlFor="personDistinctId" className="text-xs text-white/70">Person distinct ID</Label>
+          <Input
+            id="personDistinctId"
+            value={draft.personDistinctId ?? ''}
+            onChange={(e) => setText('personDistinctId', e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="personPropertyKey" className="text-xs text-white/70">Person property</Label>
+            <Input
+              id="personPropertyKey"
+              value={draft.personProperty?.key ?? ''}
+              onChange={(e) => setPersonProperty('key', e.target.value)}
+              placeholder="$geoip_country_code"
+              className={inputClassName}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="personPropertyValue" className="text-xs text-white/70">equals</Label>
+            <Input
+              id="personPropertyValue"
+              value={draft.personProperty?.value ?? ''}
+              onChange={(e) => setPersonProperty('value', e.target.value)}
+              placeholder="US"
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      </div>
+
+      <Separator className="my-4 bg-white/10" />
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="dateFrom" className="text-xs text-white/70">From</Label>
+          <Input
+            id="dateFrom"
+            type="date"
+            value={draft.dateFrom ?? ''}
+            onChange={(e) => setText('dateFrom', e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="dateTo" className="text-xs text-white/70">To</Label>
+          <Input
+            id="dateTo"
+            type="date"
+            value={draft.dateTo ?? ''}
+            onChange={(e) => setText('dateTo', e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <label className="mt-4 flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={draft.includeOngoing ?? false}
+          onChange={(e) => setDraft((prev) => ({ ...prev, includeOngoing: e.target.checked }))}
+        />
+        Include ongoing recordings
+      </label>
+
+      <div className="mt-4 flex justify-end gap-2">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={onExportResults}
+          disabled={isExporting || resultCount === 0}
+          className="mr-auto text-white hover:bg-white/10"
+          title="Download the loaded results as a replay bundle"
+        >
+          {isExporting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Package className="h-4 w-4 mr-1" />}
+          Export {resultCount}
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => setDraft(DEFAULT_RECORDING_FILTERS)}
+          className="text-white hover:bg-white/10"
+        >
+          Reset
+        </Button>
+        <Button type="submit" size="sm">
+          Apply
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { X } from 'lucide-react';
+import { FEED_SHORTCUTS } from '@/hooks/useFeedKeyboard';
+
+interface KeyboardHelpProps {
+  onClose: () => void;
+}
+
+const TOUCH_GESTURES = [
+  { gesture: 'Swipe up / down', description: 'Next / previous replay' },
+  { gesture: 'Double-tap', description: 'Save / unsave the replay' },
+  { gesture: 'Long-press', description: 'Pause while held' },
+];
+
+export default function KeyboardHelp({ onClose }: KeyboardHelpProps) {
+  return (
+    <div
+      className="fixed inset-0 z-30 flex items-center justify-center bg-black/70 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="w-[min(420px,calc(100vw-2rem))] rounded-lg border border-white/10 bg-black/90 p-5 text-white shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-sm font-semibold">Keyboard shortcuts</h2>
+          <Button variant="ghost" size="icon-sm" onClick={onClose} className="text-white hover:bg-white/10">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <ul className="space-y-2 text-sm">
+          {FEED_SHORTCUTS.map(({ keys, description }) => (
+            <li key={description} className="flex items-center justify-between gap-4">
+              <span className="text-white/70">{description}</span>
+              <span className="flex gap-1">
+                {keys.map((key) => (
+                  <kbd key={key} className="rounded border border-white/20 bg-white/10 px-1.5 py-0.5 font-mono text-xs">
+                    {key}
+                  </kbd>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        <h2 className="text-sm font-semibold mt-5 mb-3">Touch</h2>
+        <ul className="space-y-2 text-sm">
+          {TOUCH_GESTURES.map(({ gesture, description }) => (
+            <li key={gesture} className="flex items-center justify-between gap-4">
+              <span className="text-white/70">{description}</span>
+              <span className="text-xs">{gesture}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
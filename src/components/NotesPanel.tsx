@@ -0,0 +1,112 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Trash2, X } from 'lucide-react';
+import { formatDuration } from '@/lib/format';
+import type { RecordingNote } from '@/lib/notes-store';
+
+interface NotesPanelProps {
+  notes: RecordingNote[];
+  getCurrentTime: () => number; // ms into the active recording
+  onAdd: (timeOffsetMs: number, text: string) => Promise<void>;
+  onRemove: (noteId: string) => void;
+  onSeek: (timeOffsetMs: number) => void;
+  onClose: () => void;
+}
+
+export default function NotesPanel({ notes, getCurrentTime, onAdd, onRemove, onSeek, onClose }: NotesPanelProps) {
+  const [text, setText] = useState('');
+  // Captured when the user starts writing, the player keeps going while they type
+  const [timeOffsetMs, setTimeOffsetMs] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const captureTime = () => {
+    setTimeOffsetMs(getCurrentTime());
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onAdd(timeOffsetMs ?? getCurrentTime(), text.trim());
+      setText('');
+      setTimeOffsetMs(null);
+    } catch (err) {
+      console.error('Failed to save note:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="w-[min(320px,calc(100vw-2rem))] max-h-[60vh] flex flex-col rounded-lg border border-white/10 bg-black/90 p-4 text-white shadow-xl backdrop-blur">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-semibold">Notes ({notes.length})</h2>
+        <Button variant="ghost" size="icon-sm" onClick={onClose} className="text-white hover:bg-white/10">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto space-y-2 mb-3">
+        {notes.length === 0 && (
+          <li className="text-sm text-white/60">No notes on this replay yet.</li>
+        )}
+        {notes.map((note) => (
+          <li key={note.id} className="group flex items-start gap-2 text-sm">
+            <button
+              type="button"
+              onClick={() => onSeek(note.timeOffsetMs)}
+              className="shrink-0 rounded bg-white/10 px-1.5 py-0.5 font-mono text-xs hover:bg-white/20"
+              title="Jump to this moment"
+            >
+              {formatDuration(note.timeOffsetMs / 1000)}
+            </button>
+            <span className="flex-1 whitespace-pre-wrap break-words">{note.text}</span>
+            <button
+              type="button"
+              onClick={() => onRemove(note.id)}
+              className="shrink-0 text-white/40 hover:text-white"
+              title="Delete note"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <textarea
+          value={text}
+          onFocus={() => {
+            if (timeOffsetMs === null) captureTime();
+          }}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+              handleSubmit(e);
+            }
+          }}
+          placeholder="What happened here?"
+          rows={2}
+          className="w-full resize-none rounded-md border border-white/20 bg-white/5 px-2 py-1 text-sm placeholder:text-white/40 outline-none focus-visible:border-white/40"
+        />
+        <div className="flex items-center justify-between">
+          <button
+            type="button"
+            onClick={captureTime}
+            className="text-xs text-white/60 hover:text-white"
+            title="Use the current playback position"
+          >
+            at {formatDuration((timeOffsetMs ?? 0) / 1000)}
+          </button>
+          <Button type="submit" size="sm" disabled={!text.trim() || isSaving}>
+            Add note
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Check, ChevronDown, Plus, X } from 'lucide-react';
+import { getRegionForHost } from '@/lib/posthog-host';
+import type { ProjectProfile } from '@/types/posthog';
+
+interface ProjectSwitcherProps {
+  profiles: ProjectProfile[];
+  activeProfileId: string;
+  onSwitch: (profileId: string) => void;
+  onAdd: () => void;
+  onRemove: (profileId: string) => void;
+}
+
+function describeHost(host: string): string {
+  const region = getRegionForHost(host);
+  return region === 'custom' ? new URL(host).host : `${region.toUpperCase()} Cloud`;
+}
+
+export default function ProjectSwitcher({ profiles, activeProfileId, onSwitch, onAdd, onRemove }: ProjectSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const active = profiles.find((profile) => profile.id === activeProfileId);
+
+  return (
+    <div className="relative">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setIsOpen((prev) => !prev)}
+        className="max-w-48 text-white hover:bg-white/10"
+        title="Switch project"
+      >
+        <span className="truncate">{active?.label ?? 'Project'}</span>
+        <ChevronDown className="h-4 w-4 shrink-0" />
+      </Button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full z-30 mt-2 w-72 rounded-lg border border-white/10 bg-black/90 p-1 text-sm text-white shadow-xl backdrop-blur">
+          {profiles.map((profile) => (
+            <div key={profile.id} className="group flex items-center gap-1 rounded-md hover:bg-white/10">
+              <button
+                type="button"
+                onClick={() => {
+                  setIsOpen(false);
+                  if (profile.id !== activeProfileId) {
+                    onSwitch(profile.id);
+                  }
+                }}
+                className="flex min-w-0 flex-1 items-center gap-2 px-2 py-1.5 text-left"
+              >
+                <Check className={profile.id === activeProfileId ? 'h-4 w-4 shrink-0' : 'h-4 w-4 shrink-0 invisible'} />
+                <span className="min-w-0">
+                  <span className="block truncate">{profile.label}</span>
+                  <span className="block truncate text-xs text-white/50">
+                    {profile.projectId} · {describeHost(profile.host)}
+                  </span>
+                </span>
+              </button>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => onRemove(profile.id)}
+                className="text-white/50 opacity-0 hover:bg-white/10 hover:text-white group-hover:opacity-100"
+                title={`Remove ${profile.label}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => {
+              setIsOpen(false);
+              onAdd();
+            }}
+            className="mt-1 flex w-full items-center gap-2 rounded-md border-t border-white/10 px-2 py-1.5 text-left hover:bg-white/10"
+          >
+            <Plus className="h-4 w-4" />
+            Add project
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { ChevronDown, ChevronUp, Clock, Keyboard, Link2, MousePointerClick } from 'lucide-react';
+import { formatDuration } from '@/lib/format';
+import type { SessionRecording } from '@/types/posthog';
+
+interface RecordingCaptionProps {
+  recording: SessionRecording;
+  isExpanded: boolean;
+  onToggleExpanded: () => void;
+  onFilterByProperty: (key: string, value: string) => void;
+}
+
+// Key facts pulled from person properties. The first key present wins, session
+// properties first, then the "initial" ones PostHog sets on the person.
+const KEY_FACTS: { label: string; keys: string[] }[] = [
+  { label: 'Country', keys: ['$geoip_country_code', '$geoip_country_name', '$initial_geoip_country_code'] },
+  { label: 'Browser', keys: ['$browser', '$initial_browser'] },
+  { label: 'OS', keys: ['$os', '$initial_os'] },
+  { label: 'Device', keys: ['$device_type', '$initial_device_type'] },
+];
+
+function isFilterableValue(value: unknown): value is string | number | boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+function formatPropertyValue(value: unknown): string {
+  return isFilterableValue(value) ? String(value) : JSON.stringify(value);
+}
+
+export default function RecordingCaption({
+  recording,
+  isExpanded,
+  onToggleExpanded,
+  onFilterByProperty,
+}: RecordingCaptionProps) {
+  const properties = recording.person?.properties ?? {};
+
+  const facts = KEY_FACTS.flatMap(({ label, keys }) => {
+    const key = keys.find((k) => isFilterableValue(properties[k]) && properties[k] !== '');
+    return key ? [{ label, key, value: String(properties[key]) }] : [];
+  });
+
+  const propertyEntries = Object.entries(properties)
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  return (
+    <div className="w-72 max-w-[calc(100vw-3rem)] rounded-lg bg-black/60 p-3 text-xs text-white backdrop-blur-sm">
+      <button
+        type="button"
+        onClick={onToggleExpanded}
+        className="flex w-full items-center justify-between gap-2 text-left"
+      >
+        <span className="truncate text-sm font-semibold">
+          {recording.person?.name || recording.distinct_id}
+        </span>
+        {isExpanded ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronUp className="h-4 w-4 shrink-0" />}
+      </button>
+
+      {facts.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {facts.map(({ label, key, value }) => (
+            <Badge key={key} variant="secondary" asChild>
+              <button
+                type="button"
+                onClick={() => onFilterByProperty(key, value)}
+                title={`Only show sessions where ${label.toLowerCase()} is ${value}`}
+              >
+                {value}
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-white/80">
+        <span className="inline-flex items-center gap-1" title="Duration">
+          <Clock className="h-3 w-3" />
+          {formatDuration(recording.recording_duration)}
+        </span>
+        <span className="inline-flex items-center gap-1" title="Clicks">
+          <MousePointerClick className="h-3 w-3" />
+          {recording.click_count}
+        </span>
+        <span className="inline-flex items-center gap-1" title="Keypresses">
+          <Keyboard className="h-3 w-3" />
+          {recording.keypress_count}
+        </span>
+        <span title={recording.end_time ? `Ended ${new Date(recording.end_time).toLocaleString()}` : undefined}>
+          {new Date(recording.start_time).toLocaleString()}
+        </span>
+      </div>
+
+      {recording.start_url && (
+        <p className="mt-1 inline-flex max-w-full items-center gap-1 text-white/60" title={recording.start_url}>
+          <Link2 className="h-3 w-3 shrink-0" />
+          <span className="truncate">{recording.start_url}</span>
+        </p>
+      )}
+
+      {isExpanded && (
+        <dl className="mt-3 max-h-48 space-y-1 overflow-y-auto border-t border-white/10 pt-2">
+          {propertyEntries.length === 0 && (
+            <p className="text-white/60">No person properties</p>
+          )}
+          {propertyEntries.map(([key, value]) => (
+            <div key={key} className="flex gap-2">
+              <dt className="w-32 shrink-0 truncate text-white/50" title={key}>{key}</dt>
+              <dd className="min-w-0 flex-1 truncate">
+                {isFilterableValue(value) ? (
+                  <button
+                    type="button"
+                    onClick={() => onFilterByProperty(key, String(value))}
+                    className="max-w-full truncate text-left hover:underline"
+                    title="Only show sessions with this value"
+                  >
+                    {String(value)}
+                  </button>
+                ) : (
+                  <span title={formatPropertyValue(value)}>{formatPropertyValue(value)}</span>
+                )}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
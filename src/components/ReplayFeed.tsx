@@ -1,29 +1,97 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback } from 'react';
-import ReplayPlayer from './ReplayPlayer';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import ReplayPlayer, { SPEED_OPTIONS, type ReplayPlayerHandle } from './ReplayPlayer';
+import FilterPanel from './FilterPanel';
+import KeyboardHelp from './KeyboardHelp';
+import SavedPanel from './SavedPanel';
+import SettingsPanel from './SettingsPanel';
+import NotesPanel from './NotesPanel';
+import RecordingCaption from './RecordingCaption';
+import ProjectSwitcher from './ProjectSwitcher';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { ExternalLink, Loader2, ChevronLeft, ChevronRight, LogOut } from 'lucide-react';
-import type { SessionRecording, RRWebEvent } from '@/types/posthog';
+import { ExternalLink, Loader2, ChevronLeft, ChevronRight, LogOut, SlidersHorizontal, Heart, Keyboard, Bookmark, Eye, EyeOff, Settings, MessageSquare, Terminal, Link2, Check, Download, TriangleAlert, Play } from 'lucide-react';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { useFeedKeyboard } from '@/hooks/useFeedKeyboard';
+import { useFeedGestures } from '@/hooks/useFeedGestures';
+import { useSavedRecordings } from '@/hooks/useSavedRecordings';
+import { useFeedSettings, type FeedSettings } from '@/hooks/useFeedSettings';
+import { usePlayerSettings } from '@/hooks/usePlayerSettings';
+import { useWatchedRecordings } from '@/hooks/useWatchedRecordings';
+import { useRecordingNotes } from '@/hooks/useRecordingNotes';
+import { useSnapshotPrefetch } from '@/hooks/useSnapshotPrefetch';
+import { getProjectUrl, getReplayUrl } from '@/lib/posthog-host';
+import {
+  DEFAULT_RECORDING_FILTERS,
+  countActiveFilters,
+  createStartUrlMatcher,
+  type RecordingFilters,
+} from '@/lib/recording-filters';
+import {
+  RANKING_STRATEGIES,
+  rankRecordings,
+  type RankingStrategy,
+  type RecordingFriction,
+} from '@/lib/recording-ranking';
+import { buildActivityIndex } from '@/lib/activity-index';
+import { buildFeedUrl, getShareUrl, parseFeedUrl, type FeedUrlState, type FeedView } from '@/lib/feed-url';
+import { getCachedSnapshots, getSnapshotIdbKey } from '@/lib/snapshot-idb-cache';
+import { createReplayBundle, downloadReplayBundle, type BundledRecording } from '@/lib/replay-bundle';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { describeSnapshotIssues } from '@/lib/snapshot-decoding';
+import type { SessionState, ReplaysPageResponse, SessionRecording, RRWebEvent } from '@/types/posthog';
+
+// Start fetching the next page when this many recordings are left
+const LOAD_MORE_THRESHOLD = 3;
+// Give up on the first load after this many pages with no matching recordings
+const MAX_EMPTY_PAGES = 5;
+// Recordings rendered either side of the current one, the rest are spacers
+const RENDER_OVERSCAN = 2;
+
+const selectClassName = 'h-8 rounded-md border border-white/20 bg-black/40 px-2 text-sm text-white';
+
+// A recording the URL points at, waiting to show up in that view's list
+interface PendingPosition {
+  view: FeedView;
+  recordingId: string;
+}
+
+function readFeedUrl(): FeedUrlState {
+  if (typeof window === 'undefined') return parseFeedUrl('/', '');
+  return parseFeedUrl(window.location.pathname, window.location.search);
+}
 
 interface ReplayFeedProps {
-  credentials: {
-    projectId: string;
-    apiKey: string;
-  };
+  session: SessionState;
+  onSwitchProject: (profileId: string) => void;
+  onAddProject: () => void;
+  onRemoveProject: (profileId: string) => void;
   onLogout: () => void;
 }
 
-export default function ReplayFeed({ credentials, onLogout }: ReplayFeedProps) {
-  const [recordings, setRecordings] = useState<SessionRecording[]>([]);
+export default function ReplayFeed({ session, onSwitchProject, onAddProject, onRemoveProject, onLogout }: ReplayFeedProps) {
+  // Position, filters and ranking the page was opened with
+  const [initialUrl] = useState(readFeedUrl);
+  const pendingPositionRef = useRef<PendingPosition | null>(
+    initialUrl.recordingId ? { view: initialUrl.view, recordingId: initialUrl.recordingId } : null
+  );
+  // Seek target from a ?t= link
+  const [startOffset, setStartOffset] = useState<{ recordingId: string; ms: number } | null>(
+    initialUrl.recordingId && initialUrl.startOffsetSeconds
+      ? { recordingId: initialUrl.recordingId, ms: initialUrl.startOffsetSeconds * 1000 }
+      : null
+  );
+  // Applied once, coming back to that recording later starts from the top
+  const clearStartOffset = useCallback(() => setStartOffset(null), []);
+  // Set by anything the user does to move around, so only those get their own
+  // history entry. Everything else just replaces the current URL.
+  const userNavigatedRef = useRef(false);
+  const [feedRecordings, setFeedRecordings] = useState<SessionRecording[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
-  const [snapshots, setSnapshots] = useState<Record<string, RRWebEvent[]>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [snapshotError, setSnapshotError] = useState<string | null>(null);
-  const [fetchingIds, setFetchingIds] = useState<Set<string>>(new Set());
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const isScrollingProgrammatically = useRef(false);
   const [playerWidth, setPlayerWidth] = useState(800);
@@ -31,6 +99,96 @@ export default function ReplayFeed({ credentials, onLogout }: ReplayFeedProps) {
   const footerRef = useRef<HTMLElement>(null); // Add this
   const [headerHeight, setHeaderHeight] = useState(64); // Add this
   const [footerHeight, setFooterHeight] = useState(68); // Add this
+  const [storedFilters, setStoredFilters] = useLocalStorage<RecordingFilters>(
+    'posthog-recording-filters',
+    DEFAULT_RECORDING_FILTERS
+  );
+  // Filters from a link apply to this visit only, the stored ones stay as they
+  // were until the user picks filters themselves
+  const [filtersOverride, setFiltersOverride] = useState<RecordingFilters | null>(initialUrl.filters);
+  const filters = filtersOverride ?? storedFilters;
+  const setFilters = useCallback((nextFilters: RecordingFilters) => {
+    setFiltersOverride(null);
+    setStoredFilters(nextFilters);
+  }, [setStoredFilters]);
+  const [showFilters, setShowFilters] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState(false);
+  const loadMoreCursorRef = useRef<string | null>(null);
+  // Bumped on every fresh load so stale page responses get dropped
+  const feedGenerationRef = useRef(0);
+  const activePlayerRef = useRef<ReplayPlayerHandle>(null);
+  const [showHelp, setShowHelp] = useState(false);
+  // Recording whose like animation is showing
+  const [likeBurstId, setLikeBurstId] = useState<string | null>(null);
+  const { saved, savedIds, toggleSaved, removeSaved, clearSaved } = useSavedRecordings(session);
+  const [view, setView] = useState<FeedView>(initialUrl.view);
+  const [showSavedPanel, setShowSavedPanel] = useState(false);
+  // Index to jump to once a different list (view or hide-seen toggle) has rendered
+  const pendingViewScrollRef = useRef<number | null>(null);
+  const [settings, updateSettings] = useFeedSettings();
+  const [playerSettings, updatePlayerSettings] = usePlayerSettings();
+  // Ranking from the URL wins over the stored preference
+  const [rankingOverride, setRankingOverride] = useState<RankingStrategy | null>(initialUrl.ranking);
+  const ranking = rankingOverride ?? settings.ranking;
+  const [showSettings, setShowSettings] = useState(false);
+  const { watchedIds, markWatched } = useWatchedRecordings(session);
+  // Recordings that have been on screen this session. They stay in the list
+  // even once watched, so hiding seen ones never shifts the feed under you.
+  const [shownIds, setShownIds] = useState<Set<string>>(new Set());
+  const syncedViewedIds = useRef<Set<string>>(new Set());
+  const { notesByRecording, addNote, removeNote } = useRecordingNotes(session);
+  const [showNotes, setShowNotes] = useState(false);
+  const [showDevtools, setShowDevtools] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [exportProgress, setExportProgress] = useState<{ done: number; total: number } | null>(null);
+  const [exportMessage, setExportMessage] = useState<string | null>(null);
+  const [isCaptionExpanded, setIsCaptionExpanded] = useState(false);
+
+  const isSeen = useCallback(
+    (recording: SessionRecording) => recording.viewed || watchedIds.has(recording.id),
+    [watchedIds]
+  );
+
+  const filterSeen = useCallback(
+    (list: SessionRecording[], hideSeen: boolean) =>
+      hideSeen ? list.filter(recording => !isSeen(recording) || shownIds.has(recording.id)) : list,
+    [isSeen, shownIds]
+  );
+
+  // Rage clicks and errors of recordings loaded so far, for the interest score
+  const frictionRef = useRef<Map<string, RecordingFriction>>(new Map());
+
+  const recordFriction = (recordingId: string, events: RRWebEvent[]) => {
+    const { counts } = buildActivityIndex(events);
+    frictionRef.current.set(recordingId, { rageClicks: counts.rage_click, errors: counts.error });
+  };
+
+  const rankPage = useCallback(
+    (list: SessionRecording[], strategy: RankingStrategy = ranking) =>
+      rankRecordings(list, strategy, { now: Date.now(), isSeen, friction: frictionRef.current }),
+    [ranking, isSeen]
+  );
+  // Pages are ranked as they arrive, read through a ref so changing the
+  // strategy doesn't refetch the feed
+  const rankPageRef = useRef(rankPage);
+  rankPageRef.current = rankPage;
+
+  const savedRecordings = useMemo(() => saved.map(entry => entry.recording), [saved]);
+  const visibleFeedRecordings = useMemo(
+    () => filterSeen(feedRecordings, settings.hideSeen),
+    [filterSeen, feedRecordings, settings.hideSeen]
+  );
+  // Everything below navigates whichever list is on screen
+  const recordings = view === 'saved' ? savedRecordings : visibleFeedRecordings;
+
+  const { snapshots, fetchingIds, snapshotIssues, snapshotError, retry: retrySnapshots } = useSnapshotPrefetch(
+    session,
+    recordings,
+    currentIndex,
+    { memoryBudgetBytes: settings.prefetchMemoryMb * 1024 * 1024, onLoaded: recordFriction }
+  );
 
   // Measure header and footer heights
   useEffect(() => {
@@ -48,84 +206,242 @@ export default function ReplayFeed({ credentials, onLogout }: ReplayFeedProps) {
     return () => window.removeEventListener('resize', measureHeights);
   }, []);
 
-  // Fetch list of recordings on mount
+  // Fetch one page of recordings. `cursor` is the opaque `next` from the previous page.
+  const requestRecordingsPage = useCallback(async (cursor: string | null): Promise<ReplaysPageResponse> => {
+    const query = new URLSearchParams({ filters: JSON.stringify(filters) });
+    if (cursor) {
+      query.set('cursor', cursor);
+    }
+    const response = await fetch(`/api/replays?${query}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error('Failed to fetch recordings:', errorData);
+      throw new Error(
+        // `code` means PostHog itself refused or failed, its message says how
+        response.status === 401 && !errorData.code
+          ? 'Your session has expired. Log in again.'
+          : (response.status === 400 || errorData.code) && errorData.error
+            ? errorData.error
+            : 'Failed to load recordings. Check your credentials.'
+      );
+    }
+
+    const page: ReplaysPageResponse = await response.json();
+    return { ...page, results: page.results.filter(createStartUrlMatcher(filters)) };
+  }, [filters]);
+
+  // A single recording, for links to one that isn't in the loaded pages
+  const requestRecording = useCallback(async (recordingId: string): Promise<SessionRecording> => {
+    const response = await fetch(`/api/replays/${encodeURIComponent(recordingId)}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to load recording');
+    }
+
+    return response.json();
+  }, []);
+
+  // Fetch the first page on mount and whenever the filters change
   useEffect(() => {
+    let cancelled = false;
+    feedGenerationRef.current += 1;
+    loadMoreCursorRef.current = null;
+
     const fetchRecordings = async () => {
       try {
         setIsLoading(true);
+        setError(null);
+        setNextCursor(null);
+        setLoadMoreError(false);
         console.log('Fetching recordings...');
-        const response = await fetch('/api/replays', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(credentials),
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          console.error('Failed to fetch recordings:', errorData);
-          throw new Error('Failed to fetch recordings');
+
+        // A strict filter can leave a whole page empty, so keep going for a bit
+        let page = await requestRecordingsPage(null);
+        let pagesFetched = 1;
+        while (page.results.length === 0 && page.next && pagesFetched < MAX_EMPTY_PAGES) {
+          page = await requestRecordingsPage(page.next);
+          pagesFetched++;
         }
+        if (cancelled) return;
 
-        const data = await response.json();
-        console.log('Recordings data:', data);
-        setRecordings(data.results || []);
-        
-        if (data.results && data.results.length > 0) {
-          console.log('🚀 Prefetching first 5 recordings...');
-          prefetchRecordings(data.results, 0);
+        console.log('Recordings data:', page);
+        let ranked = rankPageRef.current(page.results);
+
+        // A linked recording that isn't on the first page goes in front
+        const pending = pendingPositionRef.current;
+        if (pending?.view === 'feed') {
+          setShownIds(prev => new Set(prev).add(pending.recordingId));
+          if (!ranked.some(recording => recording.id === pending.recordingId)) {
+            try {
+              const linked = await requestRecording(pending.recordingId);
+              if (cancelled) return;
+              ranked = [linked, ...ranked];
+            } catch (err) {
+              console.error('Error fetching linked recording:', err);
+              pendingPositionRef.current = null;
+            }
+          }
         }
+
+        setFeedRecordings(ranked);
+        setNextCursor(page.next);
+        setCurrentIndex(0);
+        pendingViewScrollRef.current = 0;
       } catch (err) {
+        if (cancelled) return;
         console.error('Error fetching recordings:', err);
-        setError('Failed to load recordings. Check your credentials.');
+        setError(err instanceof Error ? err.message : 'Failed to load recordings. Check your credentials.');
       } finally {
-        setIsLoading(false);
+        if (!cancelled) {
+          setIsLoading(false);
+        }
       }
     };
 
     fetchRecordings();
-  }, [credentials]);
 
+    return () => {
+      cancelled = true;
+    };
+  }, [requestRecordingsPage, requestRecording]);
+
+  const loadMoreRecordings = useCallback(async () => {
+    // Only one request per cursor, even if the effect below fires repeatedly
+    if (!nextCursor || loadMoreCursorRef.current === nextCursor) return;
+
+    const generation = feedGenerationRef.current;
+    loadMoreCursorRef.current = nextCursor;
+    setIsLoadingMore(true);
+    setLoadMoreError(false);
+
+    try {
+      console.log('📄 Fetching next page of recordings...');
+      const page = await requestRecordingsPage(nextCursor);
+      if (generation !== feedGenerationRef.current) return;
+
+      // Pages can overlap if new recordings land while we're paging. Each page
+      // is ranked on its own so what's already on screen never reshuffles.
+      setFeedRecordings(prev => {
+        const seen = new Set(prev.map(recording => recording.id));
+        return [...prev, ...rankPageRef.current(page.results.filter(recording => !seen.has(recording.id)))];
+      });
+      setNextCursor(page.next);
+    } catch (err) {
+      console.error('Error fetching more recordings:', err);
+      if (generation === feedGenerationRef.current) {
+        setLoadMoreError(true);
+      }
+    } finally {
+      if (generation === feedGenerationRef.current) {
+        setIsLoadingMore(false);
+      }
+    }
+  }, [nextCursor, requestRecordingsPage]);
+
+  const retryLoadMore = useCallback(() => {
+    loadMoreCursorRef.current = null;
+    loadMoreRecordings();
+  }, [loadMoreRecordings]);
+
+  // Fetch the next page as the user nears the end of what's loaded. If a page
+  // was filtered down to nothing, `nextCursor` changes and this fires again.
   useEffect(() => {
-    if (recordings.length > 0) {
-      prefetchRecordings(recordings, currentIndex);
+    if (view !== 'feed' || isLoading || recordings.length - currentIndex > LOAD_MORE_THRESHOLD) return;
+    loadMoreRecordings();
+  }, [view, isLoading, currentIndex, recordings.length, loadMoreRecordings]);
+
+  // Jump (without animating) to the right spot in the newly shown list. The
+  // index is set first so that recording is rendered to snap to.
+  useEffect(() => {
+    const index = pendingViewScrollRef.current;
+    const container = scrollContainerRef.current;
+    if (index === null || !container) return;
+
+    pendingViewScrollRef.current = null;
+    isScrollingProgrammatically.current = true;
+    container.scrollTo({ top: index * container.clientHeight });
+    setTimeout(() => {
+      isScrollingProgrammatically.current = false;
+    }, 100);
+  }, [view, settings.hideSeen, ranking, recordings]);
+
+  // Jump to the recording a link or back/forward points at once it's listed
+  useEffect(() => {
+    const pending = pendingPositionRef.current;
+    const container = scrollContainerRef.current;
+    if (!pending || pending.view !== view || (view === 'feed' && isLoading) || !container) return;
+
+    const index = recordings.findIndex(recording => recording.id === pending.recordingId);
+    if (index === -1) return;
+
+    isScrollingProgrammatically.current = true;
+    // Render it first, this runs again once it is
+    if (index !== currentIndex) {
+      setCurrentIndex(index);
+      return;
     }
-  }, [currentIndex, recordings]);
 
+    pendingPositionRef.current = null;
+    container.scrollTo({ top: index * container.clientHeight });
+    setTimeout(() => {
+      isScrollingProgrammatically.current = false;
+    }, 100);
+  }, [view, isLoading, recordings, currentIndex]);
+
+  // Unsaving from the Saved view can leave the index past the end
+  useEffect(() => {
+    if (recordings.length > 0 && currentIndex >= recordings.length) {
+      setCurrentIndex(recordings.length - 1);
+    }
+  }, [recordings.length, currentIndex]);
+
+  // The user moved on, so whatever the URL pointed at no longer matters
+  const markUserNavigation = () => {
+    userNavigatedRef.current = true;
+    pendingPositionRef.current = null;
+  };
+
+  const handleApplyFilters = useCallback((nextFilters: RecordingFilters) => {
+    markUserNavigation();
+    setShowFilters(false);
+    setFilters(nextFilters);
+  }, [setFilters]);
+
+  // Narrow the feed to sessions sharing a person property value
+  const handleFilterByProperty = useCallback((key: string, value: string) => {
+    setView('feed');
+    handleApplyFilters({ ...filters, personProperty: { key, value } });
+  }, [filters, handleApplyFilters]);
+
+  // Whichever rendered recording is mostly in view is the current one. Snap
+  // points stop every swipe on the next recording, so it's always rendered.
   useEffect(() => {
     const container = scrollContainerRef.current;
     if (!container) return;
 
-    const handleScroll = () => {
+    const observer = new IntersectionObserver((entries) => {
       if (isScrollingProgrammatically.current) return;
 
-      const scrollTop = container.scrollTop;
-      const containerHeight = container.clientHeight;
-      const newIndex = Math.round(scrollTop / containerHeight);
-
-      if (newIndex !== currentIndex && newIndex >= 0 && newIndex < recordings.length) {
-        setCurrentIndex(newIndex);
-        setSnapshotError(null);
+      for (const entry of entries) {
+        const newIndex = Number((entry.target as HTMLElement).dataset.index);
+        if (entry.isIntersecting && newIndex !== currentIndex) {
+          markUserNavigation();
+          setCurrentIndex(newIndex);
+        }
       }
-    };
+    }, { root: container, threshold: 0.6 });
 
-    let timeoutId: NodeJS.Timeout;
-    const debouncedHandleScroll = () => {
-      clearTimeout(timeoutId);
-      timeoutId = setTimeout(handleScroll, 100);
-    };
-
-    container.addEventListener('scroll', debouncedHandleScroll, { passive: true });
-    
-    return () => {
-      container.removeEventListener('scroll', debouncedHandleScroll);
-      clearTimeout(timeoutId);
-    };
-  }, [currentIndex, recordings.length]);
+    container.querySelectorAll<HTMLElement>('[data-index]').forEach(item => observer.observe(item));
+    return () => observer.disconnect();
+  }, [currentIndex, recordings]);
 
   const scrollToIndex = useCallback((index: number) => {
     const container = scrollContainerRef.current;
     if (!container) return;
 
+    markUserNavigation();
     isScrollingProgrammatically.current = true;
     const targetScroll = index * container.clientHeight;
     
@@ -139,9 +455,23 @@ export default function ReplayFeed({ credentials, onLogout }: ReplayFeedProps) {
     }, 500);
 
     setCurrentIndex(index);
-    setSnapshotError(null);
   }, []);
 
+  const switchView = useCallback((nextView: FeedView, index: number = 0) => {
+    setShowFilters(false);
+    setShowSavedPanel(false);
+
+    if (nextView === view) {
+      scrollToIndex(index);
+      return;
+    }
+
+    markUserNavigation();
+    pendingViewScrollRef.current = index;
+    setView(nextView);
+    setCurrentIndex(index);
+  }, [view, scrollToIndex]);
+
   const handleNext = useCallback(() => {
     if (currentIndex < recordings.length - 1) {
       scrollToIndex(currentIndex + 1);
@@ -154,79 +484,221 @@ export default function ReplayFeed({ credentials, onLogout }: ReplayFeedProps) {
     }
   }, [currentIndex, scrollToIndex]);
 
-  const prefetchRecordings = useCallback((recordingsList: SessionRecording[], fromIndex: number) => {
-    const endIndex = Math.min(fromIndex + 5, recordingsList.length);
-    
-    for (let i = fromIndex; i < endIndex; i++) {
-      const recording = recordingsList[i];
-      fetchSnapshotsForRecording(recording.id, i === fromIndex);
+  useEffect(() => {
+    const recording = recordings[currentIndex];
+    if (recording && !shownIds.has(recording.id)) {
+      setShownIds(prev => new Set(prev).add(recording.id));
     }
-  }, [snapshots, fetchingIds]);
+  }, [recordings, currentIndex, shownIds]);
 
-  const fetchSnapshotsForRecording = async (recordingId: string, isPrimary: boolean = false) => {
-    if (snapshots[recordingId] || fetchingIds.has(recordingId)) {
-      return;
+  const handleSettingsChange = useCallback((changes: Partial<FeedSettings>) => {
+    // Stay on the same recording when seen ones are hidden or shown again
+    if (changes.hideSeen !== undefined && changes.hideSeen !== settings.hideSeen && view === 'feed') {
+      const currentId = recordings[currentIndex]?.id;
+      const nextList = filterSeen(feedRecordings, changes.hideSeen);
+      const nextIndex = Math.max(0, nextList.findIndex(recording => recording.id === currentId));
+      pendingViewScrollRef.current = nextIndex;
+      setCurrentIndex(nextIndex);
     }
+    updateSettings(changes);
+  }, [settings.hideSeen, view, recordings, currentIndex, filterSeen, feedRecordings, updateSettings]);
 
-    setFetchingIds(prev => new Set(prev).add(recordingId));
+  // Re-rank everything loaded so far and start again from the top
+  const handleRankingChange = useCallback((strategy: RankingStrategy) => {
+    markUserNavigation();
+    setFeedRecordings(prev => rankPage(prev, strategy));
+    pendingViewScrollRef.current = 0;
+    setCurrentIndex(0);
+    setRankingOverride(strategy);
+    updateSettings({ ranking: strategy });
+  }, [rankPage, updateSettings]);
 
-    try {
-      console.log(`${isPrimary ? '🎯' : '⏳'} Fetching snapshots for recording ${recordingId}...`);
-      
-      if (isPrimary) {
-        setSnapshotError(null);
-      }
-      
-      const response = await fetch(`/api/replays/${recordingId}/snapshots`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(credentials),
-      });
+  // Mirror the position, view, filters and ranking into the address bar
+  useEffect(() => {
+    if ((view === 'feed' && isLoading) || pendingPositionRef.current) return;
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        console.error('Failed to fetch snapshots:', response.status, errorData);
-        throw new Error(`HTTP ${response.status}: ${errorData.error || 'Failed to fetch snapshots'}`);
+    const recording = recordings[currentIndex];
+    const url = buildFeedUrl({
+      recordingId: recording?.id ?? null,
+      startOffsetSeconds: recording && startOffset?.recordingId === recording.id ? startOffset.ms / 1000 : null,
+      view,
+      ranking,
+      filters,
+    });
+    if (url === window.location.pathname + window.location.search) return;
+
+    if (userNavigatedRef.current) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
+    }
+    userNavigatedRef.current = false;
+  }, [view, isLoading, recordings, currentIndex, startOffset, ranking, filters]);
+
+  // Back/forward: restore what the URL describes
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = readFeedUrl();
+      userNavigatedRef.current = false;
+      pendingPositionRef.current = state.recordingId ? { view: state.view, recordingId: state.recordingId } : null;
+      setStartOffset(
+        state.recordingId && state.startOffsetSeconds
+          ? { recordingId: state.recordingId, ms: state.startOffsetSeconds * 1000 }
+          : null
+      );
+      setView(state.view);
+      if (state.filters && JSON.stringify(state.filters) !== JSON.stringify(filters)) {
+        setFiltersOverride(state.filters);
+      }
+      if (state.ranking && state.ranking !== ranking) {
+        setRankingOverride(state.ranking);
+        setFeedRecordings(prev => rankPage(prev, state.ranking!));
       }
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [filters, ranking, rankPage]);
+
+  // Mark the active recording watched once enough of it has played
+  const handleTimeUpdate = useCallback((recording: SessionRecording, currentTimeMs: number) => {
+    const duration = recording.recording_duration;
+    if (!duration || currentTimeMs / 1000 < duration * settings.watchedThreshold) return;
 
-      const data = await response.json();
-      
-      let allSnapshots: RRWebEvent[] = [];
-      
-      if (data.snapshot_data_by_window_id) {
-        allSnapshots = Object.values(data.snapshot_data_by_window_id).flat() as RRWebEvent[];
-      } else if (data.sources) {
-        allSnapshots = data.sources as RRWebEvent[];
-      } else if (Array.isArray(data)) {
-        allSnapshots = data;
-      } else if (data.snapshots) {
-        allSnapshots = data.snapshots;
-      } else {
-        console.warn('Unknown snapshot format:', Object.keys(data));
-        throw new Error('Unknown snapshot data format');
+    if (!watchedIds.has(recording.id)) {
+      console.log(`👀 Marked ${recording.id} as watched`);
+      markWatched(recording.id);
+    }
+
+    if (settings.syncViewedToPosthog && !recording.viewed && !syncedViewedIds.current.has(recording.id)) {
+      syncedViewedIds.current.add(recording.id);
+      fetch(`/api/replays/${encodeURIComponent(recording.id)}/viewed`, { method: 'POST' }).catch(err => console.error('Failed to sync viewed state:', err));
+    }
+  }, [settings.watchedThreshold, settings.syncViewedToPosthog, watchedIds, markWatched]);
+
+  const handleToggleSaved = useCallback((recording: SessionRecording) => {
+    const isNowSaved = toggleSaved(recording);
+    if (isNowSaved) {
+      setLikeBurstId(recording.id);
+      setTimeout(() => setLikeBurstId(prev => (prev === recording.id ? null : prev)), 800);
+    }
+  }, [toggleSaved]);
+
+  // Link to this recording at the current moment
+  const copyShareLink = useCallback(async (recording: SessionRecording) => {
+    const seconds = (activePlayerRef.current?.getCurrentTime() ?? 0) / 1000;
+    try {
+      await navigator.clipboard.writeText(getShareUrl(window.location.origin, recording.id, seconds));
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 1500);
+    } catch (err) {
+      console.error('Failed to copy link:', err);
+    }
+  }, []);
+
+  const openInPosthog = useCallback(() => {
+    const recording = recordings[currentIndex];
+    if (recording) {
+      window.open(getReplayUrl(session.host, session.projectId, recording.id), '_blank', 'noopener,noreferrer');
+    }
+  }, [recordings, currentIndex, session]);
+
+  const hasFeed = view === 'saved' ? recordings.length > 0 : !isLoading && !error && recordings.length > 0;
+
+  useFeedKeyboard({
+    onNext: handleNext,
+    onPrevious: handlePrevious,
+    onTogglePlay: () => activePlayerRef.current?.togglePlay(),
+    onSpeed: (speedIndex) => {
+      if (speedIndex < SPEED_OPTIONS.length) {
+        activePlayerRef.current?.setSpeed(SPEED_OPTIONS[speedIndex]);
       }
+    },
+    onOpenInPosthog: openInPosthog,
+    onToggleHelp: () => setShowHelp(prev => !prev),
+    onEscape: () => {
+      setShowHelp(false);
+      setShowFilters(false);
+      setShowSavedPanel(false);
+      setShowSettings(false);
+      setShowNotes(false);
+      setShowDevtools(false);
+    },
+  }, hasFeed);
 
-      if (allSnapshots.length === 0) {
-        throw new Error('No snapshot data found in response');
+  useFeedGestures(scrollContainerRef, {
+    onSwipeUp: handleNext,
+    onSwipeDown: handlePrevious,
+    onDoubleTap: () => {
+      const recording = recordings[currentIndex];
+      if (recording) {
+        handleToggleSaved(recording);
       }
-      
-      setSnapshots(prev => ({
-        ...prev,
-        [recordingId]: allSnapshots,
-      }));
-      console.log(`✅ Loaded ${allSnapshots.length} snapshots for ${recordingId}`);
-      
-    } catch (err) {
-      console.error('Error fetching snapshots:', err);
-      if (isPrimary) {
-        setSnapshotError(err instanceof Error ? err.message : 'Failed to load snapshot data');
+    },
+    // TikTok style: pause while the finger is down
+    onLongPressStart: () => activePlayerRef.current?.pause(),
+    onLongPressEnd: () => activePlayerRef.current?.play(),
+  }, hasFeed);
+
+  // Everything a bundle needs. A copy still streaming in isn't complete yet,
+  // so that one comes from the route instead.
+  const loadEventsForExport = async (recording: SessionRecording): Promise<RRWebEvent[]> => {
+    const inMemory = snapshots[recording.id];
+    if (inMemory && !fetchingIds.has(recording.id)) {
+      return inMemory;
+    }
+
+    if (recording.ongoing === false) {
+      const cached = await getCachedSnapshots(getSnapshotIdbKey(session.host, session.projectId, recording.id));
+      if (cached && cached.length > 0) {
+        return cached;
       }
-    } finally {
-      setFetchingIds(prev => {
-        const next = new Set(prev);
-        next.delete(recordingId);
-        return next;
-      });
+    }
+
+    const response = await fetch(`/api/replays/${encodeURIComponent(recording.id)}/snapshots`);
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${data.error || 'Failed to fetch snapshots'}`);
+    }
+    if (!Array.isArray(data.sources) || data.sources.length === 0) {
+      throw new Error('No snapshot data found in response');
+    }
+    return data.sources;
+  };
+
+  // Download one or more recordings as a bundle the import page can play
+  const exportRecordings = async (recordingsToExport: SessionRecording[]) => {
+    if (exportProgress || recordingsToExport.length === 0) return;
+
+    let done = 0;
+    setExportMessage(null);
+    setExportProgress({ done, total: recordingsToExport.length });
+    console.log(`📦 Exporting ${recordingsToExport.length} recordings...`);
+
+    const results = await Promise.all(
+      mapWithConcurrency(recordingsToExport, 2, async (recording): Promise<BundledRecording | null> => {
+        try {
+          return { recording, events: await loadEventsForExport(recording) };
+        } catch (err) {
+          console.error(`Failed to export ${recording.id}:`, err);
+          return null;
+        } finally {
+          done++;
+          setExportProgress({ done, total: recordingsToExport.length });
+        }
+      })
+    );
+
+    const bundled = results.filter((entry): entry is BundledRecording => entry !== null);
+    const failed = recordingsToExport.length - bundled.length;
+    if (bundled.length > 0) {
+      downloadReplayBundle(createReplayBundle(bundled, { host: session.host, projectId: session.projectId }));
+    }
+
+    setExportProgress(null);
+    if (failed > 0) {
+      setExportMessage(bundled.length > 0 ? `${failed} of ${recordingsToExport.length} couldn't be exported` : 'Export failed');
+      setTimeout(() => setExportMessage(null), 4000);
     }
   };
 
@@ -241,13 +713,7 @@ export default function ReplayFeed({ credentials, onLogout }: ReplayFeedProps) {
   const topPadding = headerHeight + 5;
   const bottomPadding = footerHeight + 5;
 
-  const formatDuration = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
-  };
-
-  if (isLoading) {
+  if (isLoading && view === 'feed') {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <div className="text-center">
@@ -258,12 +724,28 @@ export default function ReplayFeed({ credentials, onLogout }: ReplayFeedProps) {
     );
   }
 
-  if (error) {
+  if (error && view === 'feed') {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <div className="text-center">
           <p className="text-xl text-destructive mb-4">{error}</p>
-          <Button onClick={onLogout}>Try Different Credentials</Button>
+          <div className="flex justify-center gap-2">
+            <Button variant="outline" onClick={() => setFilters(DEFAULT_RECORDING_FILTERS)}>
+              Reset Filters
+            </Button>
+            <Button onClick={onLogout}>Try Different Credentials</Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (recordings.length === 0 && view === 'saved') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center">
+          <p className="text-xl text-muted-foreground mb-4">No saved replays yet</p>
+          <Button onClick={() => switchView('feed')}>Back to Feed</Button>
         </div>
       </div>
     );
@@ -274,25 +756,173 @@ export default function ReplayFeed({ credentials, onLogout }: ReplayFeedProps) {
       <div className="min-h-screen flex items-center justify-center bg-background">
         <div className="text-center">
           <p className="text-xl text-muted-foreground mb-4">No recordings found</p>
-          <Button onClick={onLogout}>Change Credentials</Button>
+          <div className="flex justify-center gap-2">
+            {settings.hideSeen && feedRecordings.length > 0 && (
+              <Button variant="outline" onClick={() => updateSettings({ hideSeen: false })}>
+                Show Seen Replays
+              </Button>
+            )}
+            {countActiveFilters(filters) > 0 && (
+              <Button variant="outline" onClick={() => setFilters(DEFAULT_RECORDING_FILTERS)}>
+                Reset Filters
+              </Button>
+            )}
+            <Button onClick={onLogout}>Change Credentials</Button>
+          </div>
         </div>
       </div>
     );
   }
 
   const currentRecording = recordings[currentIndex];
+  const renderStart = Math.max(0, currentIndex - RENDER_OVERSCAN);
+  const renderEnd = Math.min(recordings.length, currentIndex + RENDER_OVERSCAN + 1);
+  const activeFilterCount = countActiveFilters(filters);
+  const isCurrentSaved = savedIds.has(currentRecording.id);
+  const isCurrentWatched = watchedIds.has(currentRecording.id);
+  const currentNotes = notesByRecording[currentRecording.id] ?? [];
 
   return (
     <div className="h-screen w-screen flex flex-col overflow-hidden bg-black relative">
       {/* Fixed Header - Black/Transparent */}
       <header ref={headerRef} className="absolute top-0 left-0 right-0 z-20 bg-black/50 backdrop-blur-sm">
         <div className="px-6 py-4 flex justify-between items-center">
-          <h1 className="text-2xl font-bold text-white">TikHog</h1>
-          <Button variant="ghost" size="sm" onClick={onLogout} className="text-white hover:bg-white/10">
-            <LogOut className="h-4 w-4 mr-2" />
-            Logout
-          </Button>
+          <div className="flex items-center gap-6">
+            <h1 className="text-2xl font-bold text-white">TikHog</h1>
+            <ProjectSwitcher
+              profiles={session.profiles}
+              activeProfileId={session.profileId}
+              onSwitch={onSwitchProject}
+              onAdd={onAddProject}
+              onRemove={onRemoveProject}
+            />
+            <nav className="flex items-center gap-4 text-sm font-semibold">
+              <button
+                type="button"
+                onClick={() => switchView('feed')}
+                className={view === 'feed' ? 'text-white border-b-2 border-white pb-0.5' : 'text-white/60 hover:text-white pb-0.5'}
+              >
+                For You
+              </button>
+              <button
+                type="button"
+                onClick={() => switchView('saved')}
+                className={view === 'saved' ? 'text-white border-b-2 border-white pb-0.5' : 'text-white/60 hover:text-white pb-0.5'}
+              >
+                Saved ({saved.length})
+              </button>
+            </nav>
+          </div>
+          <div className="flex items-center gap-2">
+            {view === 'feed' && (
+              <select
+                value={ranking}
+                onChange={(e) => handleRankingChange(e.target.value as RankingStrategy)}
+                className={selectClassName}
+                title="Ranking"
+              >
+                {(Object.keys(RANKING_STRATEGIES) as RankingStrategy[]).map((strategy) => (
+                  <option key={strategy} value={strategy} className="bg-black">
+                    {RANKING_STRATEGIES[strategy].label}
+                  </option>
+                ))}
+              </select>
+            )}
+            {view === 'feed' && (
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => handleSettingsChange({ hideSeen: !settings.hideSeen })}
+                className="text-white hover:bg-white/10"
+                title={settings.hideSeen ? 'Show seen replays' : 'Hide seen replays'}
+              >
+                {settings.hideSeen ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => setShowSettings((prev) => !prev)}
+              className="text-white hover:bg-white/10"
+              title="Settings"
+            >
+              <Settings className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => setShowHelp(true)}
+              className="text-white hover:bg-white/10"
+              title="Keyboard shortcuts (?)"
+            >
+              <Keyboard className="h-4 w-4" />
+            </Button>
+            {view === 'feed' ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowFilters((prev) => !prev)}
+                className="text-white hover:bg-white/10"
+              >
+                <SlidersHorizontal className="h-4 w-4 mr-2" />
+                Filters
+                {activeFilterCount > 0 && (
+                  <Badge variant="secondary" className="ml-1">{activeFilterCount}</Badge>
+                )}
+              </Button>
+            ) : (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowSavedPanel((prev) => !prev)}
+                className="text-white hover:bg-white/10"
+              >
+                <Bookmark className="h-4 w-4 mr-2" />
+                Manage
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={onLogout} className="text-white hover:bg-white/10">
+              <LogOut className="h-4 w-4 mr-2" />
+              Logout
+            </Button>
+          </div>
         </div>
+        {showFilters && (
+          <div className="absolute right-6 top-full mt-2">
+            <FilterPanel
+              filters={filters}
+              onApply={handleApplyFilters}
+              resultCount={visibleFeedRecordings.length}
+              onExportResults={() => exportRecordings(visibleFeedRecordings)}
+              isExporting={exportProgress !== null}
+              onClose={() => setShowFilters(false)}
+            />
+          </div>
+        )}
+        {showSettings && (
+          <div className="absolute right-6 top-full mt-2">
+            <SettingsPanel
+              settings={settings}
+              onChange={handleSettingsChange}
+              playerSettings={playerSettings}
+              onPlayerChange={updatePlayerSettings}
+              onClose={() => setShowSettings(false)}
+            />
+          </div>
+        )}
+        {showSavedPanel && (
+          <div className="absolute right-6 top-full mt-2">
+            <SavedPanel
+              saved={saved}
+              onRemove={removeSaved}
+              onClear={clearSaved}
+              onSelect={(index) => switchView('saved', index)}
+              onExportBundle={() => exportRecordings(savedRecordings)}
+              isExporting={exportProgress !== null}
+              onClose={() => setShowSavedPanel(false)}
+            />
+          </div>
+        )}
       </header>
 
       {/* Scrollable container with snap points */}
@@ -307,15 +937,51 @@ export default function ReplayFeed({ credentials, onLogout }: ReplayFeedProps) {
           }
         `}</style>
         
-        {recordings.map((recording, index) => {
+        {/* Stand-ins for the recordings above the rendered ones, so scroll
+            positions stay index * height */}
+        {renderStart > 0 && <div className="w-full shrink-0" style={{ height: `${renderStart * 100}%` }} />}
+
+        {recordings.slice(renderStart, renderEnd).map((recording, offset) => {
+          const index = renderStart + offset;
           const currentSnapshots = snapshots[recording.id] || [];
           const isActive = index === currentIndex;
+          const noteCount = notesByRecording[recording.id]?.length ?? 0;
+          const issues = snapshotIssues[recording.id];
+          const issuesSummary = issues && describeSnapshotIssues(issues);
           
           return (
             <div
               key={recording.id}
+              data-index={index}
               className="w-full h-full snap-start snap-always flex items-center justify-center shrink-0 relative"
             >
+              <div className="absolute left-6 z-20 flex flex-col items-start gap-2" style={{ top: `${topPadding + 8}px` }}>
+                {noteCount > 0 && (
+                  <Badge variant="secondary">
+                    <MessageSquare />
+                    {noteCount} {noteCount === 1 ? 'note' : 'notes'}
+                  </Badge>
+                )}
+                {issuesSummary && (
+                  <Badge
+                    variant="destructive"
+                    title={issues.warnings.map((warning) => `${warning.message} (${warning.count}x)`).join('\n') || 'Some chunks failed to download'}
+                  >
+                    <TriangleAlert />
+                    Incomplete: {issuesSummary}
+                  </Badge>
+                )}
+              </div>
+
+              <div className="absolute left-6 z-20" style={{ bottom: `${bottomPadding + 8}px` }}>
+                <RecordingCaption
+                  recording={recording}
+                  isExpanded={isCaptionExpanded}
+                  onToggleExpanded={() => setIsCaptionExpanded(prev => !prev)}
+                  onFilterByProperty={handleFilterByProperty}
+                />
+              </div>
+
               {/* Desktop: Just the replay player centered */}
               {/* Mobile: YouTube video + Replay player stacked and centered */}
               <div 
@@ -341,25 +1007,43 @@ export default function ReplayFeed({ credentials, onLogout }: ReplayFeedProps) {
 
                 {/* Main replay area */}
                 <div className="w-full flex items-center justify-center relative z-10">
+                  {likeBurstId === recording.id && (
+                    <Heart className="absolute z-20 h-24 w-24 fill-red-500 text-red-500 animate-ping pointer-events-none" />
+                  )}
                   {snapshotError && isActive ? (
                     <div className="text-center max-w-md">
                       <p className="text-destructive mb-4 font-semibold">Failed to load replay</p>
                       <p className="text-sm text-muted-foreground mb-4">{snapshotError}</p>
-                      <Button onClick={() => fetchSnapshotsForRecording(recording.id, true)}>
+                      <Button onClick={() => retrySnapshots(recording.id)}>
                         Retry
                       </Button>
                     </div>
-                  ) : currentSnapshots.length > 0 ? (
+                  ) : currentSnapshots.length > 0 && isActive ? (
+                    // Only the current recording gets a player, the neighbours
+                    // are just placeholders until they're scrolled to
                     <ReplayPlayer
                       key={recording.id}
+                      ref={activePlayerRef}
                       recordingId={recording.id}
                       snapshots={currentSnapshots}
-                      autoPlay={isActive}
+                      isStreaming={fetchingIds.has(recording.id)}
+                      startOffsetMs={startOffset?.recordingId === recording.id ? startOffset.ms : undefined}
+                      onStartOffsetApplied={clearStartOffset}
                       onFinish={handleNext}
-                      onDimensionsChange={isActive ? handlePlayerDimensionsChange : undefined}
+                      onTimeUpdate={(timeMs) => handleTimeUpdate(recording, timeMs)}
+                      onDimensionsChange={handlePlayerDimensionsChange}
+                      showDevtools={showDevtools}
+                      onCloseDevtools={() => setShowDevtools(false)}
+                      canClip
+                      settings={playerSettings}
                       headerHeight={headerHeight}
                       footerHeight={footerHeight}
                     />
+                  ) : currentSnapshots.length > 0 ? (
+                    <div className="text-center text-white/60">
+                      <Play className="h-12 w-12 mx-auto mb-4" />
+                      <p>Recording {index + 1} of {recordings.length}</p>
+                    </div>
                   ) : (
                     <div className="text-center text-white">
                       <Loader2 className="h-12 w-12 animate-spin mx-auto mb-4" />
@@ -374,10 +1058,27 @@ export default function ReplayFeed({ credentials, onLogout }: ReplayFeedProps) {
             </div>
           );
         })}
+
+        {renderEnd < recordings.length && (
+          <div className="w-full shrink-0" style={{ height: `${(recordings.length - renderEnd) * 100}%` }} />
+        )}
       </div>
 
       {/* Fixed Footer - Black/Transparent, Compact */}
       <footer ref={footerRef} className="absolute bottom-0 left-0 right-0 z-20 bg-black/50 backdrop-blur-sm">
+        {showNotes && (
+          <div className="absolute right-6 bottom-full mb-2">
+            <NotesPanel
+              key={currentRecording.id}
+              notes={currentNotes}
+              getCurrentTime={() => activePlayerRef.current?.getCurrentTime() ?? 0}
+              onAdd={(timeOffsetMs, text) => addNote(currentRecording.id, timeOffsetMs, text)}
+              onRemove={(noteId) => removeNote(currentRecording.id, noteId)}
+              onSeek={(timeOffsetMs) => activePlayerRef.current?.goto(timeOffsetMs)}
+              onClose={() => setShowNotes(false)}
+            />
+          </div>
+        )}
         <div 
           className="py-3 flex items-end justify-between text-xs text-white/80" 
           style={{ 
@@ -387,20 +1088,27 @@ export default function ReplayFeed({ credentials, onLogout }: ReplayFeedProps) {
         >
           {/* Left side - Recording info (stacked vertically) */}
           <div className="flex flex-col gap-1">
-            <span className="font-medium">
-              {currentRecording?.person?.name || currentRecording?.distinct_id || 'Unknown'}
+            <span className="font-medium inline-flex items-center gap-2">
+              <span className={isSeen(currentRecording) ? 'text-white/50' : undefined}>
+                {currentRecording?.person?.name || currentRecording?.distinct_id || 'Unknown'}
+              </span>
+              {isCurrentWatched ? (
+                <Badge variant="secondary" className="h-4 px-1 text-[10px]">Watched</Badge>
+              ) : currentRecording.viewed ? (
+                <Badge variant="outline" className="h-4 px-1 text-[10px] text-white/70">Seen in PostHog</Badge>
+              ) : null}
             </span>
             <a
-              href={`https://us.posthog.com/project/${credentials.projectId}`}
+              href={getProjectUrl(session.host, session.projectId)}
               target="_blank"
               rel="noopener noreferrer"
               className="hover:text-white inline-flex items-center gap-1"
             >
-              Project {credentials.projectId}
+              Project {session.projectId}
               <ExternalLink className="h-3 w-3" />
             </a>
             <a
-              href={`https://us.posthog.com/project/${credentials.projectId}/replay/${currentRecording?.id}`}
+              href={getReplayUrl(session.host, session.projectId, currentRecording?.id)}
               target="_blank"
               rel="noopener noreferrer"
               className="hover:text-white inline-flex items-center gap-1"
@@ -412,6 +1120,64 @@ export default function ReplayFeed({ credentials, onLogout }: ReplayFeedProps) {
 
           {/* Right side - Navigation */}
           <div className="flex items-center gap-3">
+            <Button
+              onClick={() => setShowNotes(prev => !prev)}
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-white hover:bg-white/10"
+              title="Notes"
+            >
+              <MessageSquare className="h-4 w-4" />
+              {currentNotes.length > 0 && (
+                <Badge variant="secondary" className="h-4 px-1 text-[10px]">{currentNotes.length}</Badge>
+              )}
+            </Button>
+
+            <Button
+              onClick={() => copyShareLink(currentRecording)}
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-white hover:bg-white/10"
+              title="Copy link to this moment"
+            >
+              {linkCopied ? <Check className="h-4 w-4" /> : <Link2 className="h-4 w-4" />}
+            </Button>
+
+            <Button
+              onClick={() => exportRecordings([currentRecording])}
+              disabled={exportProgress !== null}
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-white hover:bg-white/10"
+              title="Export replay bundle"
+            >
+              {exportProgress ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+              {exportProgress && exportProgress.total > 1 && (
+                <span className="text-xs">{exportProgress.done}/{exportProgress.total}</span>
+              )}
+            </Button>
+            {exportMessage && <span className="text-xs text-red-300">{exportMessage}</span>}
+
+            <Button
+              onClick={() => setShowDevtools(prev => !prev)}
+              variant="ghost"
+              size="sm"
+              className={showDevtools ? 'h-7 px-2 text-white bg-white/10 hover:bg-white/10' : 'h-7 px-2 text-white hover:bg-white/10'}
+              title="Console & network"
+            >
+              <Terminal className="h-4 w-4" />
+            </Button>
+
+            <Button
+              onClick={() => handleToggleSaved(currentRecording)}
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-white hover:bg-white/10"
+              title={isCurrentSaved ? 'Remove from saved' : 'Save'}
+            >
+              <Heart className={isCurrentSaved ? 'h-4 w-4 fill-red-500 text-red-500' : 'h-4 w-4'} />
+            </Button>
+
             <Button
               onClick={handlePrevious}
               disabled={currentIndex === 0}
@@ -422,10 +1188,22 @@ export default function ReplayFeed({ credentials, onLogout }: ReplayFeedProps) {
               <ChevronLeft className="h-4 w-4" />
             </Button>
             
-            <span className="text-white/80">
-              {currentIndex + 1} / {recordings.length}
+            <span className="text-white/80 inline-flex items-center gap-1">
+              {currentIndex + 1} / {recordings.length}{view === 'feed' && nextCursor ? '+' : ''}
+              {isLoadingMore && <Loader2 className="h-3 w-3 animate-spin" />}
             </span>
 
+            {view === 'feed' && loadMoreError && (
+              <Button
+                onClick={retryLoadMore}
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-white hover:bg-white/10"
+              >
+                Retry loading more
+              </Button>
+            )}
+
             <Button
               onClick={handleNext}
               disabled={currentIndex === recordings.length - 1}
@@ -438,6 +1216,8 @@ export default function ReplayFeed({ credentials, onLogout }: ReplayFeedProps) {
           </div>
         </div>
       </footer>
+
+      {showHelp && <KeyboardHelp onClose={() => setShowHelp(false)} />}
     </div>
   );
 }
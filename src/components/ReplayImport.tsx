@@ -0,0 +1,211 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import Link from 'next/link';
+import ReplayPlayer from './ReplayPlayer';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight, FileUp, Terminal } from 'lucide-react';
+import { BUNDLE_EXTENSION, decodeReplayBundle, type BundledRecording } from '@/lib/replay-bundle';
+import { formatDuration } from '@/lib/format';
+import { usePlayerSettings } from '@/hooks/usePlayerSettings';
+
+const HEADER_HEIGHT = 64;
+const FOOTER_HEIGHT = 68;
+
+// Plays exported replay bundles straight from disk. Nothing here talks to
+// PostHog or needs a session.
+export default function ReplayImport() {
+  const [recordings, setRecordings] = useState<BundledRecording[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [showDevtools, setShowDevtools] = useState(false);
+  const [playerSettings] = usePlayerSettings();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const openFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    const loaded: BundledRecording[] = [];
+    const failures: string[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        const bundle = decodeReplayBundle(new Uint8Array(await file.arrayBuffer()));
+        loaded.push(...bundle.recordings);
+        console.log(`📦 Opened ${file.name}: ${bundle.recordings.length} recordings`);
+      } catch (err) {
+        failures.push(`${file.name}: ${err instanceof Error ? err.message : 'Could not be opened'}`);
+      }
+    }
+
+    setErrors(failures);
+    if (loaded.length > 0) {
+      // Opening the same recording twice just keeps the first copy
+      const ids = new Set(recordings.map(({ recording }) => recording.id));
+      const added = loaded.filter(({ recording }) => !ids.has(recording.id) && ids.add(recording.id));
+      if (added.length > 0) {
+        setRecordings([...recordings, ...added]);
+        setCurrentIndex(recordings.length);
+      }
+    }
+  };
+
+  const current = recordings[currentIndex];
+
+  const fileInput = (
+    <input
+      ref={fileInputRef}
+      type="file"
+      accept={`${BUNDLE_EXTENSION},.gz,.json`}
+      multiple
+      className="hidden"
+      onChange={(e) => {
+        openFiles(e.target.files);
+        e.target.value = '';
+      }}
+    />
+  );
+
+  return (
+    <div
+      className="h-screen w-screen flex flex-col overflow-hidden bg-black relative"
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragging(false);
+        openFiles(e.dataTransfer.files);
+      }}
+    >
+      <header
+        className="absolute top-0 left-0 right-0 z-20 bg-black/50 backdrop-blur-sm"
+        style={{ height: HEADER_HEIGHT }}
+      >
+        <div className="h-full px-6 flex justify-between items-center">
+          <div className="flex items-center gap-6">
+            <h1 className="text-2xl font-bold text-white">TikHog</h1>
+            <span className="text-sm font-semibold text-white/60">Imported replays</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              className="text-white hover:bg-white/10"
+            >
+              <FileUp className="h-4 w-4 mr-2" />
+              Open bundle
+            </Button>
+            <Button asChild variant="ghost" size="sm" className="text-white hover:bg-white/10">
+              <Link href="/">Back to feed</Link>
+            </Button>
+          </div>
+        </div>
+        {fileInput}
+      </header>
+
+      {errors.length > 0 && (
+        <div
+          className="absolute left-1/2 z-30 -translate-x-1/2 rounded-lg border border-white/10 bg-black/90 px-4 py-2 text-sm text-red-300 shadow-xl backdrop-blur"
+          style={{ top: HEADER_HEIGHT + 8 }}
+        >
+          {errors.map((message) => (
+            <p key={message}>{message}</p>
+          ))}
+        </div>
+      )}
+
+      <main
+        className="flex-1 flex items-center justify-center px-4"
+        style={{ paddingTop: HEADER_HEIGHT + 5, paddingBottom: FOOTER_HEIGHT + 5 }}
+      >
+        {current ? (
+          <ReplayPlayer
+            key={current.recording.id}
+            recordingId={current.recording.id}
+            snapshots={current.events}
+            onFinish={() => setCurrentIndex((prev) => Math.min(prev + 1, recordings.length - 1))}
+            settings={playerSettings}
+            showDevtools={showDevtools}
+            onCloseDevtools={() => setShowDevtools(false)}
+            headerHeight={HEADER_HEIGHT}
+            footerHeight={FOOTER_HEIGHT}
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className={
+              isDragging
+                ? 'w-full max-w-md rounded-lg border-2 border-dashed border-white p-10 text-center text-white'
+                : 'w-full max-w-md rounded-lg border-2 border-dashed border-white/30 p-10 text-center text-white/70 hover:border-white/60'
+            }
+          >
+            <FileUp className="h-10 w-10 mx-auto mb-4" />
+            <p className="font-semibold">Drop replay bundles here</p>
+            <p className="text-sm text-white/50 mt-1">
+              {BUNDLE_EXTENSION} files exported from the feed. No PostHog login needed.
+            </p>
+          </button>
+        )}
+      </main>
+
+      {current && (
+        <footer
+          className="absolute bottom-0 left-0 right-0 z-20 bg-black/50 backdrop-blur-sm text-white text-sm"
+          style={{ height: FOOTER_HEIGHT }}
+        >
+          <div className="h-full px-6 flex justify-between items-center">
+            <div className="flex flex-col gap-1 min-w-0">
+              <span className="font-medium truncate">
+                {current.recording.person?.name || current.recording.distinct_id || 'Unknown'}
+              </span>
+              <span className="text-white/60 truncate">
+                {new Date(current.recording.start_time).toLocaleString()}
+                {' · '}
+                {formatDuration(current.recording.recording_duration)}
+                {current.recording.start_url ? ` · ${current.recording.start_url}` : ''}
+              </span>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <Button
+                onClick={() => setShowDevtools((prev) => !prev)}
+                variant="ghost"
+                size="sm"
+                className={showDevtools ? 'h-7 px-2 text-white bg-white/10 hover:bg-white/10' : 'h-7 px-2 text-white hover:bg-white/10'}
+                title="Console & network"
+              >
+                <Terminal className="h-4 w-4" />
+              </Button>
+              <Button
+                onClick={() => setCurrentIndex((prev) => prev - 1)}
+                disabled={currentIndex === 0}
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-white hover:bg-white/10 disabled:opacity-30"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-white/80">
+                {currentIndex + 1} / {recordings.length}
+              </span>
+              <Button
+                onClick={() => setCurrentIndex((prev) => prev + 1)}
+                disabled={currentIndex === recordings.length - 1}
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-white hover:bg-white/10 disabled:opacity-30"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </footer>
+      )}
+    </div>
+  );
+}
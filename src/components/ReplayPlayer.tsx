@@ -1,26 +1,79 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState, type Ref } from 'react';
 import type rrwebPlayer from 'rrweb-player';
+import { Loader2, Scissors } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { hasPlayableSnapshot } from '@/lib/snapshot-stream';
+import { buildActivityIndex, findInactivePeriods } from '@/lib/activity-index';
+import { buildDevtoolsLog } from '@/lib/devtools-log';
+import { buildWindowSegments, findActiveWindow, splitByWindow } from '@/lib/snapshot-windows';
+import ActivityTimeline from './ActivityTimeline';
+import DevtoolsPanel from './DevtoolsPanel';
+import ClipPanel from './ClipPanel';
+import WindowSwitcher from './WindowSwitcher';
+import { DEFAULT_PLAYER_SETTINGS, type PlayerSettings } from '@/hooks/usePlayerSettings';
 import type { RRWebEvent } from '@/types/posthog';
 import 'rrweb-player/dist/style.css';
 
+export const SPEED_OPTIONS = [1, 2, 4, 8, 16];
+
+// Space reserved under the player for the activity timeline and its legend
+const TIMELINE_HEIGHT = 44;
+// And above it for the window tabs, when a session has several windows
+const WINDOW_SWITCHER_HEIGHT = 40;
+// Only re-render the timeline playhead this often
+const TIME_UPDATE_INTERVAL_MS = 250;
+// Skipping an inactive stretch lands this far before the next interaction, and
+// leaves this much after the last one
+const SKIP_LEAD_MS = 1000;
+// How often the per-replay time limit is checked
+const TIME_LIMIT_CHECK_MS = 250;
+
+// Lets the feed drive the active player from keyboard shortcuts and gestures
+export interface ReplayPlayerHandle {
+  togglePlay: () => void;
+  play: () => void;
+  pause: () => void;
+  setSpeed: (speed: number) => void;
+  goto: (timeOffsetMs: number) => void; // ms into the recording, whichever window is playing
+  getCurrentTime: () => number; // ms into the recording
+}
+
 interface ReplayPlayerProps {
+  ref?: Ref<ReplayPlayerHandle>;
   recordingId: string;
   snapshots: RRWebEvent[];
   autoPlay?: boolean;
+  isStreaming?: boolean; // more events may still be appended to `snapshots`
+  startOffsetMs?: number; // seek here once the player is ready, e.g. from a ?t= link
+  onStartOffsetApplied?: () => void; // the feed drops the offset so a remount doesn't seek again
   onFinish?: () => void;
+  onTimeUpdate?: (currentTimeMs: number) => void;
   onDimensionsChange?: (width: number, height: number) => void;
+  showDevtools?: boolean;
+  onCloseDevtools?: () => void;
+  canClip?: boolean; // rendering clips goes through the session, not available offline
+  settings?: PlayerSettings; // applied to the running player as they change
   headerHeight?: number; // Add this
   footerHeight?: number; // Add this
 }
 
 export default function ReplayPlayer({ 
+  ref,
   recordingId, 
   snapshots, 
   autoPlay = true,
+  isStreaming = false,
+  startOffsetMs,
+  onStartOffsetApplied,
   onFinish,
+  onTimeUpdate,
   onDimensionsChange,
+  showDevtools = false,
+  onCloseDevtools,
+  canClip = false,
+  settings = DEFAULT_PLAYER_SETTINGS,
   headerHeight = 64, // Add this with default
   footerHeight = 68  // Add this with default
 }: ReplayPlayerProps) {
@@ -28,12 +81,132 @@ export default function ReplayPlayer({
   const playerRef = useRef<rrwebPlayer | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
+  // How many of the player's events the current player instance already has
+  const eventsAddedRef = useRef(0);
+  const isStreamingRef = useRef(isStreaming);
+  isStreamingRef.current = isStreaming;
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+  onTimeUpdateRef.current = onTimeUpdate;
+  const onFinishRef = useRef(onFinish);
+  onFinishRef.current = onFinish;
+  // When this recording came on screen. Looping doesn't reset it, so the time
+  // limit still moves on from a short replay that loops.
+  const shownSinceRef = useRef(0);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const activityIndex = useMemo(() => buildActivityIndex(snapshots), [snapshots]);
+  // rrweb's own skipping has a fixed threshold, so inactive stretches are
+  // found here and jumped over instead
+  const inactivePeriods = useMemo(
+    () => (settings.skipInactive
+      ? findInactivePeriods(snapshots, activityIndex, settings.inactivityThresholdSeconds * 1000)
+      : []),
+    [settings.skipInactive, settings.inactivityThresholdSeconds, snapshots, activityIndex]
+  );
+  const inactivePeriodsRef = useRef(inactivePeriods);
+  inactivePeriodsRef.current = inactivePeriods;
+  // Only parse console/network events once someone opens the panel
+  const devtoolsLog = useMemo(
+    () => (showDevtools ? buildDevtoolsLog(snapshots, activityIndex.startTime) : null),
+    [showDevtools, snapshots, activityIndex.startTime]
+  );
+  const [currentTimeMs, setCurrentTimeMs] = useState(0);
+  // Where the clip starts while the clip panel is open
+  const [clipStartMs, setClipStartMs] = useState<number | null>(null);
+  const lastTimeUpdateRef = useRef(0);
+  const startOffsetRef = useRef(startOffsetMs);
+  startOffsetRef.current = startOffsetMs;
+  const onStartOffsetAppliedRef = useRef(onStartOffsetApplied);
+  onStartOffsetAppliedRef.current = onStartOffsetApplied;
+  // The offset is cleared once applied, the first window shouldn't change with it
+  const [initialStartOffsetMs] = useState(startOffsetMs);
+  // The player is recreated on resize, only seek when the offset is new
+  const appliedStartOffsetRef = useRef<number | undefined>(undefined);
+
+  // Sessions across several windows or tabs play one window's stream at a time
+  const windows = useMemo(() => splitByWindow(snapshots), [snapshots]);
+  const hasWindows = windows.length > 1;
+  const windowSegments = useMemo(
+    () => (hasWindows ? buildWindowSegments(snapshots, activityIndex.startTime) : []),
+    [hasWindows, snapshots, activityIndex.startTime]
+  );
+  const [windowChoice, setWindowChoice] = useState<string | null>(null);
+  const [followActiveWindow, setFollowActiveWindow] = useState(true);
+  const activeWindowId = hasWindows ? findActiveWindow(windowSegments, currentTimeMs) : null;
+  const startWindowId = findActiveWindow(windowSegments, initialStartOffsetMs ?? 0);
+  const playerWindow = hasWindows
+    ? windows.find((w) => w.id === windowChoice) ??
+      windows.find((w) => w.id === startWindowId && w.isPlayable) ??
+      windows.find((w) => w.isPlayable) ??
+      windows[0]
+    : null;
+  const playerWindowId = playerWindow?.id ?? null;
+  const playerEvents = playerWindow?.events ?? snapshots;
+  const playerEventsRef = useRef(playerEvents);
+  playerEventsRef.current = playerEvents;
+  const isPlayable = useMemo(() => hasPlayableSnapshot(playerEvents), [playerEvents]);
+
+  // The player counts time from its own stream's first event, everything
+  // outside it (timeline, devtools, links) from the recording's
+  const windowOffsetMs = playerWindow ? playerWindow.startTime - activityIndex.startTime : 0;
+  const windowOffsetRef = useRef(windowOffsetMs);
+  windowOffsetRef.current = windowOffsetMs;
+  // The offset and window the current player instance was created with
+  const playerOffsetRef = useRef(0);
+  const playerCreatedForRef = useRef<string | null>(null);
+  const windowStateRef = useRef({ windows, windowSegments, followActiveWindow, playerWindowId, startTime: activityIndex.startTime });
+  windowStateRef.current = { windows, windowSegments, followActiveWindow, playerWindowId, startTime: activityIndex.startTime };
+  // The moment to pick up from when the player is recreated for another window
+  const pendingSeekRef = useRef<{ timeMs: number; play: boolean } | null>(null);
+  const isPlayingRef = useRef(autoPlay);
+
+  const getRecordingTime = useCallback(
+    () => (playerRef.current?.getReplayer().getCurrentTime() ?? 0) + playerOffsetRef.current,
+    []
+  );
+
+  // Seek to a moment of the recording, switching to the window the user was
+  // in then when following the active window
+  const seekTo = useCallback((timeMs: number, play?: boolean) => {
+    const { windows, windowSegments, followActiveWindow, playerWindowId } = windowStateRef.current;
+    const targetId = followActiveWindow ? findActiveWindow(windowSegments, timeMs) : null;
+    if (targetId && targetId !== playerWindowId && windows.find((w) => w.id === targetId)?.isPlayable) {
+      pendingSeekRef.current = { timeMs, play: play ?? isPlayingRef.current };
+      setWindowChoice(targetId);
+      return;
+    }
+    playerRef.current?.goto(Math.max(0, timeMs - playerOffsetRef.current), play);
+  }, []);
+
+  const selectWindow = (windowId: string) => {
+    // Picking a window by hand means it shouldn't jump away again
+    setFollowActiveWindow(false);
+    setWindowChoice(windowId);
+  };
+
+  useImperativeHandle(ref, () => ({
+    togglePlay: () => playerRef.current?.toggle(),
+    play: () => playerRef.current?.play(),
+    pause: () => playerRef.current?.pause(),
+    setSpeed: (speed: number) => playerRef.current?.setSpeed(speed),
+    goto: (timeOffsetMs: number) => seekTo(timeOffsetMs),
+    getCurrentTime: getRecordingTime,
+  }), [seekTo, getRecordingTime]);
+
+  // Follow the user from window to window as the replay goes
+  useEffect(() => {
+    if (!followActiveWindow || !activeWindowId || activeWindowId === playerWindowId) return;
+    if (windows.find((w) => w.id === activeWindowId)?.isPlayable) {
+      setWindowChoice(activeWindowId);
+    }
+  }, [followActiveWindow, activeWindowId, playerWindowId, windows]);
 
   // Calculate responsive dimensions with constant aspect ratio
   useEffect(() => {
     const calculateDimensions = () => {
       // Available space: height minus header and footer and 5px gaps (10px total)
-      const availableHeight = window.innerHeight - headerHeight - footerHeight - 10;
+      const availableHeight = window.innerHeight - headerHeight - footerHeight - TIMELINE_HEIGHT
+        - (hasWindows ? WINDOW_SWITCHER_HEIGHT : 0) - 10;
       const availableWidth = window.innerWidth - 64; // 64px for left/right padding
       
       // Target aspect ratio 4:3 (or adjust to your preference)
@@ -89,17 +262,16 @@ export default function ReplayPlayer({
     calculateDimensions();
     window.addEventListener('resize', calculateDimensions);
     return () => window.removeEventListener('resize', calculateDimensions);
-  }, [onDimensionsChange, headerHeight, footerHeight]); // Add headerHeight and footerHeight to dependencies
+  }, [onDimensionsChange, headerHeight, footerHeight, hasWindows]); // Add headerHeight and footerHeight to dependencies
 
+  // Create the player once there's enough to render. Later events are appended
+  // below rather than recreating the player.
   useEffect(() => {
+    if (!isPlayable) return;
+
     const initPlayer = async () => {
       try {
-        console.log('🎬 Init called - snapshots:', snapshots.length, 'container:', !!containerRef.current);
-        
-        if (snapshots.length === 0) {
-          setError('No snapshots available');
-          return;
-        }
+        console.log('🎬 Init called - snapshots:', playerEventsRef.current.length, 'container:', !!containerRef.current);
 
         if (!containerRef.current) {
           console.warn('Container not ready, waiting...');
@@ -113,37 +285,98 @@ export default function ReplayPlayer({
 
         // Clean up previous player if exists
         if (playerRef.current) {
+          // Switching windows carries on from the same moment
+          if (playerCreatedForRef.current !== playerWindowId && !pendingSeekRef.current) {
+            pendingSeekRef.current = { timeMs: getRecordingTime(), play: isPlayingRef.current };
+          }
           playerRef.current.pause();
           containerRef.current.innerHTML = '';
         }
 
-        console.log('✅ Initializing player with events:', snapshots);
+        // Read after the await, more events may have streamed in meanwhile
+        const events = playerEventsRef.current;
+        console.log('✅ Initializing player with events:', events.length);
 
         // Create new player instance
         playerRef.current = new rrwebPlayer({
           target: containerRef.current,
           props: {
-            events: snapshots,
+            events,
             autoPlay,
             width: dimensions.width,
             height: dimensions.height,
             showController: true,
-            speed: 8,
-            speedOption: [1, 2, 4, 8, 16],
-            skipInactive: true,
+            speed: settingsRef.current.speed,
+            speedOption: SPEED_OPTIONS,
+            skipInactive: false,
           },
         });
+        eventsAddedRef.current = events.length;
+        playerOffsetRef.current = windowOffsetRef.current;
+        playerCreatedForRef.current = playerWindowId;
+        isPlayingRef.current = autoPlay;
 
         // Explicitly set speed after initialization to ensure UI reflects it
         if (playerRef.current) {
-          playerRef.current.setSpeed(8);
+          playerRef.current.setSpeed(settingsRef.current.speed);
         }
 
-        // Listen for finish event
-        if (playerRef.current && onFinish) {
-          playerRef.current.addEventListener('finish', onFinish);
+        const startOffset = startOffsetRef.current;
+        const pendingSeek = pendingSeekRef.current;
+        pendingSeekRef.current = null;
+        if (pendingSeek) {
+          playerRef.current.goto(Math.max(0, pendingSeek.timeMs - playerOffsetRef.current), pendingSeek.play);
+        } else if (startOffset !== undefined && startOffset !== appliedStartOffsetRef.current) {
+          appliedStartOffsetRef.current = startOffset;
+          playerRef.current.goto(Math.max(0, startOffset - playerOffsetRef.current), autoPlay);
+          onStartOffsetAppliedRef.current?.();
         }
 
+        playerRef.current.addEventListener('ui-update-player-state', (event: { payload: string }) => {
+          isPlayingRef.current = event.payload === 'playing';
+        });
+
+        // Listen for finish event. Playback can catch up with a stream that's
+        // still loading, that isn't the end of the recording.
+        playerRef.current.addEventListener('finish', () => {
+          if (isStreamingRef.current) return;
+
+          // One window's stream can end while the session goes on in another
+          const timeMs = getRecordingTime();
+          const { windows, playerWindowId, startTime } = windowStateRef.current;
+          const next = windows
+            .filter((w) => w.id !== playerWindowId && w.isPlayable)
+            .find((w) => w.events[w.events.length - 1].timestamp - startTime > timeMs);
+          if (next) {
+            pendingSeekRef.current = { timeMs, play: true };
+            setWindowChoice(next.id);
+            return;
+          }
+          if (settingsRef.current.afterReplay === 'loop') {
+            seekTo(0, true);
+            return;
+          }
+          onFinishRef.current?.();
+        });
+
+        // Time offset into the recording, in ms
+        playerRef.current.addEventListener('ui-update-current-time', (event: { payload: number }) => {
+          const timeMs = event.payload + playerOffsetRef.current;
+          // Only while playing, seeking into a quiet stretch by hand stays put
+          const inactive = isPlayingRef.current && inactivePeriodsRef.current.find(
+            (period) => timeMs >= period.startMs + SKIP_LEAD_MS && timeMs < period.endMs - SKIP_LEAD_MS
+          );
+          if (inactive) {
+            seekTo(inactive.endMs - SKIP_LEAD_MS, true);
+            return;
+          }
+          onTimeUpdateRef.current?.(timeMs);
+          if (Math.abs(timeMs - lastTimeUpdateRef.current) >= TIME_UPDATE_INTERVAL_MS) {
+            lastTimeUpdateRef.current = timeMs;
+            setCurrentTimeMs(timeMs);
+          }
+        });
+
         console.log('✅ Player created successfully');
       } catch (err) {
         console.error('❌ Error initializing player:', err);
@@ -159,7 +392,68 @@ export default function ReplayPlayer({
         playerRef.current.pause();
       }
     };
-  }, [snapshots, autoPlay, recordingId, dimensions, onFinish]);
+  }, [isPlayable, autoPlay, recordingId, dimensions, playerWindowId, getRecordingTime, seekTo]);
+
+  // A new default speed applies to the replay already playing
+  useEffect(() => {
+    playerRef.current?.setSpeed(settings.speed);
+  }, [settings.speed]);
+
+  useEffect(() => {
+    shownSinceRef.current = Date.now();
+  }, [recordingId]);
+
+  // Move on after so many seconds of real time on screen, whether it was
+  // playing, paused or still loading
+  const maxShownMs = settings.maxSecondsPerReplay * 1000;
+  useEffect(() => {
+    if (maxShownMs <= 0) return;
+
+    const interval = setInterval(() => {
+      if (Date.now() - shownSinceRef.current < maxShownMs) return;
+      clearInterval(interval);
+      onFinishRef.current?.();
+    }, TIME_LIMIT_CHECK_MS);
+    return () => clearInterval(interval);
+  }, [maxShownMs, recordingId]);
+
+  // A new offset for a player that already exists (e.g. browser back to a ?t= link)
+  useEffect(() => {
+    if (startOffsetMs === undefined) {
+      appliedStartOffsetRef.current = undefined;
+      return;
+    }
+    if (startOffsetMs === appliedStartOffsetRef.current || !playerRef.current) return;
+    appliedStartOffsetRef.current = startOffsetMs;
+    seekTo(startOffsetMs, autoPlay);
+    onStartOffsetAppliedRef.current?.();
+  }, [startOffsetMs, autoPlay, seekTo]);
+
+  // Feed newly streamed events into the running player
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!player || playerEvents.length <= eventsAddedRef.current) return;
+
+    for (let i = eventsAddedRef.current; i < playerEvents.length; i++) {
+      player.addEvent(playerEvents[i] as Parameters<rrwebPlayer['addEvent']>[0]);
+    }
+    eventsAddedRef.current = playerEvents.length;
+  }, [playerEvents]);
+
+  if (!isPlayable) {
+    return (
+      <div className="text-center text-white">
+        {isStreaming ? (
+          <>
+            <Loader2 className="h-12 w-12 animate-spin mx-auto mb-4" />
+            <p>Waiting for the first full snapshot...</p>
+          </>
+        ) : (
+          <p className="text-destructive">This recording has no full snapshot to play from</p>
+        )}
+      </div>
+    );
+  }
 
   if (error) {
     return (
@@ -173,8 +467,72 @@ export default function ReplayPlayer({
   }
 
   return (
-    <div className="w-full flex justify-center">
-      <div ref={containerRef} className="rounded-lg overflow-hidden shadow-lg" />
+    <div className="w-full flex flex-col items-center">
+      {hasWindows && (
+        <WindowSwitcher
+          windows={windows}
+          segments={windowSegments}
+          selectedWindowId={playerWindowId}
+          activeWindowId={activeWindowId}
+          followActive={followActiveWindow}
+          currentTimeMs={currentTimeMs}
+          durationMs={activityIndex.durationMs}
+          width={dimensions.width}
+          onSelect={selectWindow}
+          onToggleFollow={() => setFollowActiveWindow((prev) => !prev)}
+          onSeek={seekTo}
+        />
+      )}
+      <div className="relative">
+        <div ref={containerRef} className="rounded-lg overflow-hidden shadow-lg" />
+        {canClip && (
+          <div className="absolute right-2 top-2 z-30 flex flex-col items-end gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                const player = playerRef.current;
+                player?.pause();
+                // In the playing window's own time, that's the stream the clip is rendered from
+                setClipStartMs((prev) => (prev === null ? player?.getReplayer().getCurrentTime() ?? 0 : null));
+              }}
+              className="h-7 px-2 bg-black/60 text-white hover:bg-black/80"
+              title="Render a clip from here"
+            >
+              <Scissors className="h-4 w-4" />
+              Clip this
+            </Button>
+            {clipStartMs !== null && (
+              <ClipPanel
+                recordingId={recordingId}
+                windowId={playerWindowId}
+                startMs={clipStartMs}
+                recordingDurationMs={activityIndex.durationMs - windowOffsetMs}
+                onClose={() => setClipStartMs(null)}
+              />
+            )}
+          </div>
+        )}
+      </div>
+      <ActivityTimeline
+        index={activityIndex}
+        currentTimeMs={currentTimeMs}
+        width={dimensions.width}
+        onSeek={seekTo}
+      />
+      {devtoolsLog && (
+        <div
+          className="fixed right-4 z-40"
+          style={{ top: headerHeight + 8, bottom: footerHeight + 8 }}
+        >
+          <DevtoolsPanel
+            log={devtoolsLog}
+            currentTimeMs={currentTimeMs}
+            onSeek={seekTo}
+            onClose={() => onCloseDevtools?.()}
+          />
+        </div>
+      )}
     </div>
   );
 }
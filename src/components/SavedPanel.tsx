@@ -0,0 +1,119 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { Copy, Download, ExternalLink, Loader2, Package, Trash2, X } from 'lucide-react';
+import { downloadBlob } from '@/lib/download';
+import { getReplayUrl } from '@/lib/posthog-host';
+import type { SavedRecording } from '@/hooks/useSavedRecordings';
+
+interface SavedPanelProps {
+  saved: SavedRecording[];
+  onRemove: (recordingId: string) => void;
+  onClear: () => void;
+  onSelect: (index: number) => void;
+  onExportBundle: () => void;
+  isExporting: boolean;
+  onClose: () => void;
+}
+
+// One line per saved recording: link, then who and when for context
+function buildLinksExport(saved: SavedRecording[]): string {
+  return saved
+    .map(({ host, projectId, recording }) => {
+      const who = recording.person?.name || recording.distinct_id;
+      return `${getReplayUrl(host, projectId, recording.id)}  # ${who}, ${recording.start_time}`;
+    })
+    .join('\n');
+}
+
+export default function SavedPanel({ saved, onRemove, onClear, onSelect, onExportBundle, isExporting, onClose }: SavedPanelProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(buildLinksExport(saved));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error('Failed to copy links:', err);
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([buildLinksExport(saved) + '\n'], { type: 'text/plain' });
+    downloadBlob(blob, `tikhog-saved-${new Date().toISOString().slice(0, 10)}.txt`);
+  };
+
+  return (
+    <div className="w-[min(420px,calc(100vw-2rem))] max-h-[70vh] overflow-y-auto rounded-lg border border-white/10 bg-black/90 p-4 text-white shadow-xl backdrop-blur">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-semibold">Saved replays ({saved.length})</h2>
+        <Button variant="ghost" size="icon-sm" onClick={onClose} className="text-white hover:bg-white/10">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {saved.length === 0 ? (
+        <p className="text-sm text-white/60">
+          Nothing saved yet. Double-tap a replay or hit the heart to save it.
+        </p>
+      ) : (
+        <>
+          <ul className="space-y-2">
+            {saved.map(({ host, projectId, recording }, index) => (
+              <li key={recording.id} className="flex items-center justify-between gap-2 text-sm">
+                <button
+                  type="button"
+                  onClick={() => onSelect(index)}
+                  className="min-w-0 text-left hover:underline"
+                >
+                  <span className="block truncate">{recording.person?.name || recording.distinct_id}</span>
+                  <span className="block truncate text-xs text-white/50">{recording.start_url}</span>
+                </button>
+                <div className="flex shrink-0 items-center">
+                  <Button asChild variant="ghost" size="icon-sm" className="text-white hover:bg-white/10">
+                    <a href={getReplayUrl(host, projectId, recording.id)} target="_blank" rel="noopener noreferrer">
+                      <ExternalLink className="h-4 w-4" />
+                    </a>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => onRemove(recording.id)}
+                    className="text-white hover:bg-white/10"
+                    title="Remove"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <Separator className="my-4 bg-white/10" />
+
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={onClear} className="text-white hover:bg-white/10">
+              Clear all
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleCopy} className="text-white hover:bg-white/10">
+              <Copy className="h-4 w-4 mr-1" />
+              {copied ? 'Copied' : 'Copy links'}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleDownload} className="text-white hover:bg-white/10">
+              <Download className="h-4 w-4 mr-1" />
+              Export links
+            </Button>
+            {/* Links need PostHog access, a bundle plays anywhere */}
+            <Button size="sm" onClick={onExportBundle} disabled={isExporting}>
+              {isExporting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Package className="h-4 w-4 mr-1" />}
+              Export replays
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { X } from 'lucide-react';
+import { SPEED_OPTIONS } from './ReplayPlayer';
+import type { FeedSettings } from '@/hooks/useFeedSettings';
+import type { AfterReplay, PlayerSettings } from '@/hooks/usePlayerSettings';
+
+interface SettingsPanelProps {
+  settings: FeedSettings;
+  onChange: (changes: Partial<FeedSettings>) => void;
+  playerSettings: PlayerSettings;
+  onPlayerChange: (changes: Partial<PlayerSettings>) => void;
+  onClose: () => void;
+}
+
+const WATCHED_THRESHOLD_OPTIONS = [0.25, 0.5, 0.75, 0.9, 1];
+const PREFETCH_MEMORY_OPTIONS = [128, 256, 512, 1024];
+const INACTIVITY_THRESHOLD_OPTIONS = [5, 10, 30, 60];
+const MAX_SECONDS_OPTIONS = [0, 15, 30, 60, 120];
+const AFTER_REPLAY_OPTIONS: { value: AfterReplay; label: string }[] = [
+  { value: 'next', label: 'Go to the next one' },
+  { value: 'loop', label: 'Play it again' },
+];
+
+const selectClassName = 'h-8 w-full rounded-md border border-white/20 bg-white/5 px-2 text-sm text-white';
+
+export default function SettingsPanel({ settings, onChange, playerSettings, onPlayerChange, onClose }: SettingsPanelProps) {
+  return (
+    <div className="w-[min(360px,calc(100vw-2rem))] max-h-[70vh] overflow-y-auto rounded-lg border border-white/10 bg-black/90 p-4 text-white shadow-xl backdrop-blur">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-semibold">Settings</h2>
+        <Button variant="ghost" size="icon-sm" onClick={onClose} className="text-white hover:bg-white/10">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="watchedThreshold" className="text-xs text-white/70">
+          Count a replay as watched after
+        </Label>
+        <select
+          id="watchedThreshold"
+          value={settings.watchedThreshold}
+          onChange={(e) => onChange({ watchedThreshold: Number(e.target.value) })}
+          className={selectClassName}
+        >
+          {WATCHED_THRESHOLD_OPTIONS.map((fraction) => (
+            <option key={fraction} value={fraction} className="bg-black">
+              {Math.round(fraction * 100)}% played
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="mt-3 space-y-1">
+        <Label htmlFor="prefetchMemoryMb" className="text-xs text-white/70">
+          Memory for loaded replays
+        </Label>
+        <select
+          id="prefetchMemoryMb"
+          value={settings.prefetchMemoryMb}
+          onChange={(e) => onChange({ prefetchMemoryMb: Number(e.target.value) })}
+          className={selectClassName}
+        >
+          {PREFETCH_MEMORY_OPTIONS.map((megabytes) => (
+            <option key={megabytes} value={megabytes} className="bg-black">
+              About {megabytes >= 1024 ? `${megabytes / 1024} GB` : `${megabytes} MB`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <Separator className="my-4 bg-white/10" />
+
+      <div className="space-y-3 text-sm">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.hideSeen}
+            onChange={(e) => onChange({ hideSeen: e.target.checked })}
+          />
+          Hide replays I&apos;ve already seen
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.syncViewedToPosthog}
+            onChange={(e) => onChange({ syncViewedToPosthog: e.target.checked })}
+          />
+          Mark watched replays as viewed in PostHog
+        </label>
+      </div>
+
+      <Separator className="my-4 bg-white/10" />
+
+      <h3 className="mb-3 text-xs font-semibold uppercase text-white/50">Playback</h3>
+      <div className="space-y-3">
+        <div className="space-y-1">
+          <Label htmlFor="playerSpeed" className="text-xs text-white/70">
+            Start replays at
+          </Label>
+          <select
+            id="playerSpeed"
+            value={playerSettings.speed}
+            onChange={(e) => onPlayerChange({ speed: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {SPEED_OPTIONS.map((speed) => (
+              <option key={speed} value={speed} className="bg-black">
+                {speed}x speed
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={playerSettings.skipInactive}
+            onChange={(e) => onPlayerChange({ skipInactive: e.target.checked })}
+          />
+          Skip stretches where nothing happens
+        </label>
+        <div className="space-y-1">
+          <Label htmlFor="inactivityThreshold" className="text-xs text-white/70">
+            Count it as nothing happening after
+          </Label>
+          <select
+            id="inactivityThreshold"
+            value={playerSettings.inactivityThresholdSeconds}
+            disabled={!playerSettings.skipInactive}
+            onChange={(e) => onPlayerChange({ inactivityThresholdSeconds: Number(e.target.value) })}
+            className={`${selectClassName} disabled:opacity-50`}
+          >
+            {INACTIVITY_THRESHOLD_OPTIONS.map((seconds) => (
+              <option key={seconds} value={seconds} className="bg-black">
+                {seconds}s without input
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="afterReplay" className="text-xs text-white/70">
+            When a replay ends
+          </Label>
+          <select
+            id="afterReplay"
+            value={playerSettings.afterReplay}
+            onChange={(e) => onPlayerChange({ afterReplay: e.target.value as AfterReplay })}
+            className={selectClassName}
+          >
+            {AFTER_REPLAY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value} className="bg-black">
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="maxSecondsPerReplay" className="text-xs text-white/70">
+            Move on after
+          </Label>
+          <select
+            id="maxSecondsPerReplay"
+            value={playerSettings.maxSecondsPerReplay}
+            onChange={(e) => onPlayerChange({ maxSecondsPerReplay: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {MAX_SECONDS_OPTIONS.map((seconds) => (
+              <option key={seconds} value={seconds} className="bg-black">
+                {seconds === 0 ? 'The whole replay' : `${seconds} seconds, even if paused`}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { RecordingWindow, WindowSegment } from '@/lib/snapshot-windows';
+
+interface WindowSwitcherProps {
+  windows: RecordingWindow[];
+  segments: WindowSegment[];
+  selectedWindowId: string | null; // the one being played
+  activeWindowId: string | null; // the one the user was in at `currentTimeMs`
+  followActive: boolean;
+  currentTimeMs: number;
+  durationMs: number;
+  width: number;
+  onSelect: (windowId: string) => void;
+  onToggleFollow: () => void;
+  onSeek: (timeOffsetMs: number) => void;
+}
+
+const WINDOW_COLORS = ['bg-sky-400', 'bg-fuchsia-400', 'bg-amber-400', 'bg-emerald-400', 'bg-rose-400', 'bg-indigo-400'];
+
+function describeHref(href?: string): string | null {
+  if (!href) return null;
+  try {
+    const url = new URL(href);
+    return url.host + url.pathname;
+  } catch {
+    return href;
+  }
+}
+
+// Tabs for each window of a multi-window session, and a lane showing which
+// window the user was in over time
+export default function WindowSwitcher({
+  windows,
+  segments,
+  selectedWindowId,
+  activeWindowId,
+  followActive,
+  currentTimeMs,
+  durationMs,
+  width,
+  onSelect,
+  onToggleFollow,
+  onSeek,
+}: WindowSwitcherProps) {
+  const duration = Math.max(durationMs, 1);
+  const colorOf = (windowId: string) =>
+    WINDOW_COLORS[Math.max(0, windows.findIndex((w) => w.id === windowId)) % WINDOW_COLORS.length];
+
+  const handleLaneClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+    onSeek(fraction * duration);
+  };
+
+  return (
+    <div className="mb-2 text-xs text-white/70" style={{ width }}>
+      <div className="flex items-center gap-1 overflow-x-auto">
+        {windows.map((recordingWindow) => (
+          <button
+            key={recordingWindow.id}
+            type="button"
+            disabled={!recordingWindow.isPlayable}
+            onClick={() => onSelect(recordingWindow.id)}
+            title={describeHref(recordingWindow.href) ?? recordingWindow.label}
+            className={cn(
+              'flex shrink-0 items-center gap-1.5 rounded px-2 py-0.5 disabled:opacity-40',
+              recordingWindow.id === selectedWindowId ? 'bg-white/20 text-white' : 'hover:bg-white/10'
+            )}
+          >
+            <span className={cn('h-2 w-2 rounded-full', colorOf(recordingWindow.id))} />
+            {recordingWindow.label}
+            {recordingWindow.id === activeWindowId && (
+              <span className="text-[10px] font-semibold uppercase text-emerald-300">active</span>
+            )}
+          </button>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onToggleFollow}
+          className={cn('ml-auto h-6 shrink-0 px-2 text-xs', followActive ? 'bg-white/10 text-white' : 'text-white/60')}
+          title="Switch to whichever window the user was in"
+        >
+          Follow active
+        </Button>
+      </div>
+
+      <div className="relative mt-1 h-1.5 cursor-pointer overflow-hidden rounded bg-white/10" onClick={handleLaneClick}>
+        {segments.map((segment) => (
+          <div
+            key={`${segment.windowId}-${segment.startMs}`}
+            className={cn('absolute top-0 h-full', colorOf(segment.windowId))}
+            style={{
+              left: `${(segment.startMs / duration) * 100}%`,
+              width: `${(Math.max(segment.endMs - segment.startMs, 0) / duration) * 100}%`,
+            }}
+          />
+        ))}
+        <div
+          className="absolute top-0 h-full w-0.5 bg-white"
+          style={{ left: `${Math.min(currentTimeMs / duration, 1) * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { useEffect, useRef, type RefObject } from 'react';
+
+export interface FeedGestureHandlers {
+  onSwipeUp?: () => void;
+  onSwipeDown?: () => void;
+  onDoubleTap?: () => void;
+  onLongPressStart?: () => void;
+  onLongPressEnd?: () => void;
+}
+
+const SWIPE_MIN_DISTANCE = 60; // px
+const SWIPE_MAX_DURATION = 600; // ms
+const TAP_MAX_MOVEMENT = 10; // px
+const DOUBLE_TAP_WINDOW = 300; // ms
+const LONG_PRESS_DELAY = 500; // ms
+
+// Touch gestures for the feed container. Swipes only navigate when the
+// container didn't scroll itself, e.g. when the touch started on the replay
+// iframe, so they don't double up with native snap scrolling.
+// Pass `enabled` so listeners get attached once the element is mounted.
+export function useFeedGestures(
+  ref: RefObject<HTMLElement | null>,
+  handlers: FeedGestureHandlers,
+  enabled = true
+) {
+  // Keep the latest handlers without re-binding listeners every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !enabled) return;
+
+    let startX = 0;
+    let startY = 0;
+    let startTime = 0;
+    let startScrollTop = 0;
+    let lastTapTime = 0;
+    let longPressTimer: ReturnType<typeof setTimeout> | null = null;
+    let isLongPressing = false;
+
+    const cancelLongPress = () => {
+      if (longPressTimer) {
+        clearTimeout(longPressTimer);
+        longPressTimer = null;
+      }
+    };
+
+    const handleTouchStart = (e: TouchEvent) => {
+      if (e.touches.length !== 1) {
+        cancelLongPress();
+        return;
+      }
+
+      const touch = e.touches[0];
+      startX = touch.clientX;
+      startY = touch.clientY;
+      startTime = Date.now();
+      startScrollTop = element.scrollTop;
+
+      cancelLongPress();
+      longPressTimer = setTimeout(() => {
+        isLongPressing = true;
+        handlersRef.current.onLongPressStart?.();
+      }, LONG_PRESS_DELAY);
+    };
+
+    const handleTouchMove = (e: TouchEvent) => {
+      const touch = e.touches[0];
+      if (
+        Math.abs(touch.clientX - startX) > TAP_MAX_MOVEMENT ||
+        Math.abs(touch.clientY - startY) > TAP_MAX_MOVEMENT
+      ) {
+        cancelLongPress();
+      }
+    };
+
+    const handleTouchEnd = (e: TouchEvent) => {
+      cancelLongPress();
+
+      if (isLongPressing) {
+        isLongPressing = false;
+        handlersRef.current.onLongPressEnd?.();
+        return;
+      }
+
+      const touch = e.changedTouches[0];
+      const dx = touch.clientX - startX;
+      const dy = touch.clientY - startY;
+      const duration = Date.now() - startTime;
+
+      const isSwipe =
+        Math.abs(dy) >= SWIPE_MIN_DISTANCE &&
+        Math.abs(dy) > Math.abs(dx) &&
+        duration <= SWIPE_MAX_DURATION;
+
+      if (isSwipe) {
+        if (element.scrollTop === startScrollTop) {
+          if (dy < 0) {
+            handlersRef.current.onSwipeUp?.();
+          } else {
+            handlersRef.current.onSwipeDown?.();
+          }
+        }
+        return;
+      }
+
+      const isTap = Math.abs(dx) <= TAP_MAX_MOVEMENT && Math.abs(dy) <= TAP_MAX_MOVEMENT;
+      if (!isTap) return;
+
+      const now = Date.now();
+      if (now - lastTapTime <= DOUBLE_TAP_WINDOW) {
+        lastTapTime = 0;
+        handlersRef.current.onDoubleTap?.();
+      } else {
+        lastTapTime = now;
+      }
+    };
+
+    const handleTouchCancel = () => {
+      cancelLongPress();
+      if (isLongPressing) {
+        isLongPressing = false;
+        handlersRef.current.onLongPressEnd?.();
+      }
+    };
+
+    element.addEventListener('touchstart', handleTouchStart, { passive: true });
+    element.addEventListener('touchmove', handleTouchMove, { passive: true });
+    element.addEventListener('touchend', handleTouchEnd);
+    element.addEventListener('touchcancel', handleTouchCancel);
+
+    return () => {
+      cancelLongPress();
+      element.removeEventListener('touchstart', handleTouchStart);
+      element.removeEventListener('touchmove', handleTouchMove);
+      element.removeEventListener('touchend', handleTouchEnd);
+      element.removeEventListener('touchcancel', handleTouchCancel);
+    };
+  }, [ref, enabled]);
+}
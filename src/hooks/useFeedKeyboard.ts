@@ -0,0 +1,78 @@
+import { useEffect, useRef } from 'react';
+
+export interface FeedKeyboardHandlers {
+  onNext: () => void;
+  onPrevious: () => void;
+  onTogglePlay: () => void;
+  onSpeed: (speedIndex: number) => void;
+  onOpenInPosthog: () => void;
+  onToggleHelp: () => void;
+  onEscape?: () => void;
+}
+
+// Shown in the help overlay, keep in sync with the switch below
+export const FEED_SHORTCUTS: { keys: string[]; description: string }[] = [
+  { keys: ['j', '↓'], description: 'Next replay' },
+  { keys: ['k', '↑'], description: 'Previous replay' },
+  { keys: ['Space'], description: 'Play / pause' },
+  { keys: ['1', '–', '5'], description: 'Playback speed (1x to 16x)' },
+  { keys: ['o'], description: 'Open in PostHog' },
+  { keys: ['?'], description: 'Show / hide this help' },
+  { keys: ['Esc'], description: 'Close overlays' },
+];
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  const tag = target.tagName;
+  return tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT' || target.isContentEditable;
+}
+
+export function useFeedKeyboard(handlers: FeedKeyboardHandlers, enabled = true) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey || isTypingTarget(e.target)) return;
+
+      const h = handlersRef.current;
+
+      switch (e.key) {
+        case 'j':
+        case 'ArrowDown':
+          h.onNext();
+          break;
+        case 'k':
+        case 'ArrowUp':
+          h.onPrevious();
+          break;
+        case ' ':
+          h.onTogglePlay();
+          break;
+        case 'o':
+          h.onOpenInPosthog();
+          break;
+        case '?':
+          h.onToggleHelp();
+          break;
+        case 'Escape':
+          h.onEscape?.();
+          break;
+        default:
+          if (/^[1-9]$/.test(e.key)) {
+            h.onSpeed(Number(e.key) - 1);
+            break;
+          }
+          return;
+      }
+
+      // Stop arrows/space from also scrolling the feed or pressing a focused button
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
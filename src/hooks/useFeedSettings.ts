@@ -0,0 +1,28 @@
+import { usePersistedSettings } from './usePersistedSettings';
+import { DEFAULT_RANKING_STRATEGY, type RankingStrategy } from '@/lib/recording-ranking';
+
+// Per-browser preferences for how the feed behaves
+export interface FeedSettings {
+  // Fraction of a recording that has to play before it counts as watched
+  watchedThreshold: number;
+  // Leave out recordings already watched here or viewed in PostHog
+  hideSeen: boolean;
+  // Also mark recordings as viewed in PostHog so teammates see it
+  syncViewedToPosthog: boolean;
+  // Order the feed is ranked in
+  ranking: RankingStrategy;
+  // Roughly how much loaded replay data to hold before dropping far-off ones
+  prefetchMemoryMb: number;
+}
+
+export const DEFAULT_FEED_SETTINGS: FeedSettings = {
+  watchedThreshold: 0.5,
+  hideSeen: false,
+  syncViewedToPosthog: false,
+  ranking: DEFAULT_RANKING_STRATEGY,
+  prefetchMemoryMb: 256,
+};
+
+export function useFeedSettings() {
+  return usePersistedSettings('posthog-feed-settings', DEFAULT_FEED_SETTINGS);
+}
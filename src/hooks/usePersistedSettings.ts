@@ -0,0 +1,17 @@
+import { useCallback, useMemo } from 'react';
+import { useLocalStorage } from './useLocalStorage';
+
+// A settings object kept in localStorage. Only what the user changed is
+// stored, and it's merged over the defaults so settings added later get
+// sensible values. `defaults` should be a module-level constant.
+export function usePersistedSettings<T extends object>(key: string, defaults: T) {
+  const [stored, setStored] = useLocalStorage<Partial<T>>(key, {});
+
+  const settings = useMemo<T>(() => ({ ...defaults, ...stored }), [defaults, stored]);
+
+  const updateSettings = useCallback((changes: Partial<T>) => {
+    setStored({ ...stored, ...changes });
+  }, [stored, setStored]);
+
+  return [settings, updateSettings] as const;
+}
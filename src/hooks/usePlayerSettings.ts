@@ -0,0 +1,29 @@
+import { usePersistedSettings } from './usePersistedSettings';
+
+export type AfterReplay = 'next' | 'loop';
+
+// Per-browser preferences for how replays play
+export interface PlayerSettings {
+  // Speed every replay starts at
+  speed: number;
+  // Jump over stretches where the user wasn't doing anything
+  skipInactive: boolean;
+  // How long a stretch has to be to count as inactive, in recording time
+  inactivityThresholdSeconds: number;
+  // What happens when a replay ends
+  afterReplay: AfterReplay;
+  // Move on after this many seconds on screen, playing or not, 0 for no limit
+  maxSecondsPerReplay: number;
+}
+
+export const DEFAULT_PLAYER_SETTINGS: PlayerSettings = {
+  speed: 8,
+  skipInactive: true,
+  inactivityThresholdSeconds: 10,
+  afterReplay: 'next',
+  maxSecondsPerReplay: 0,
+};
+
+export function usePlayerSettings() {
+  return usePersistedSettings('posthog-player-settings', DEFAULT_PLAYER_SETTINGS);
+}
@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from 'react';
+import { notesStore, type NotesScope, type RecordingNote } from '@/lib/notes-store';
+
+export function useRecordingNotes({ host, projectId }: NotesScope) {
+  const [notesByRecording, setNotesByRecording] = useState<Record<string, RecordingNote[]>>({});
+
+  const refresh = useCallback(async () => {
+    try {
+      setNotesByRecording(await notesStore.listAll({ host, projectId }));
+    } catch (error) {
+      console.error('Error loading notes:', error);
+    }
+  }, [host, projectId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const addNote = useCallback(async (recordingId: string, timeOffsetMs: number, text: string) => {
+    await notesStore.add({ host, projectId }, { recordingId, timeOffsetMs, text });
+    await refresh();
+  }, [host, projectId, refresh]);
+
+  const removeNote = useCallback(async (recordingId: string, noteId: string) => {
+    await notesStore.remove({ host, projectId }, recordingId, noteId);
+    await refresh();
+  }, [host, projectId, refresh]);
+
+  return { notesByRecording, addNote, removeNote };
+}
@@ -0,0 +1,61 @@
+import { useCallback, useMemo } from 'react';
+import { useLocalStorage } from './useLocalStorage';
+import type { SessionRecording } from '@/types/posthog';
+
+// A bookmarked recording. We keep the full metadata so the Saved view can
+// play it back without the recording being in the current feed page.
+export interface SavedRecording {
+  host: string;
+  projectId: string;
+  recording: SessionRecording;
+  savedAt: string; // ISO date string
+}
+
+interface ProjectScope {
+  host: string;
+  projectId: string;
+}
+
+export function useSavedRecordings({ host, projectId }: ProjectScope) {
+  const [allSaved, setAllSaved] = useLocalStorage<SavedRecording[]>('posthog-saved-recordings', []);
+
+  // Only the current project's recordings, newest first
+  const saved = useMemo(
+    () =>
+      allSaved
+        .filter((entry) => entry.host === host && entry.projectId === projectId)
+        .sort((a, b) => b.savedAt.localeCompare(a.savedAt)),
+    [allSaved, host, projectId]
+  );
+
+  const savedIds = useMemo(() => new Set(saved.map((entry) => entry.recording.id)), [saved]);
+
+  const isSameEntry = useCallback(
+    (entry: SavedRecording, recordingId: string) =>
+      entry.host === host && entry.projectId === projectId && entry.recording.id === recordingId,
+    [host, projectId]
+  );
+
+  const removeSaved = useCallback((recordingId: string) => {
+    setAllSaved(allSaved.filter((entry) => !isSameEntry(entry, recordingId)));
+  }, [allSaved, setAllSaved, isSameEntry]);
+
+  const toggleSaved = useCallback((recording: SessionRecording): boolean => {
+    if (savedIds.has(recording.id)) {
+      removeSaved(recording.id);
+      return false;
+    }
+
+    setAllSaved([
+      ...allSaved,
+      { host, projectId, recording, savedAt: new Date().toISOString() },
+    ]);
+    return true;
+  }, [allSaved, setAllSaved, savedIds, removeSaved, host, projectId]);
+
+  const clearSaved = useCallback(() => {
+    setAllSaved(allSaved.filter((entry) => entry.host !== host || entry.projectId !== projectId));
+  }, [allSaved, setAllSaved, host, projectId]);
+
+  return { saved, savedIds, toggleSaved, removeSaved, clearSaved };
+}
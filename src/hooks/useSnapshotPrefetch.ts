@@ -0,0 +1,301 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { readSnapshotStream, sortByTimestamp } from '@/lib/snapshot-stream';
+import { getCachedSnapshots, getSnapshotIdbKey, putCachedSnapshots } from '@/lib/snapshot-idb-cache';
+import { mergeSnapshotWarnings } from '@/lib/snapshot-decoding';
+import {
+  chooseEvictions,
+  createDownloadStats,
+  DEFAULT_PREFETCH_CONFIG,
+  estimateEventsSize,
+  getPrefetchDepth,
+  planPrefetch,
+  type PrefetchPlan,
+} from '@/lib/prefetch-scheduler';
+import type { RRWebEvent, SessionRecording, SnapshotIssues, SnapshotWarning } from '@/types/posthog';
+
+// Downloads at once. Few enough that the current and next recordings get
+// most of the connection.
+const MAX_CONCURRENT_FETCHES = 2;
+
+interface ProjectScope {
+  host: string;
+  projectId: string;
+}
+
+interface SnapshotPrefetchOptions {
+  memoryBudgetBytes: number;
+  // Every time a recording's events are complete, from the network or IndexedDB
+  onLoaded?: (recordingId: string, events: RRWebEvent[]) => void;
+}
+
+// Loads snapshots for the recordings around `currentIndex` and drops the ones
+// far from it. See prefetch-scheduler for how it picks.
+export function useSnapshotPrefetch(
+  { host, projectId }: ProjectScope,
+  recordings: SessionRecording[],
+  currentIndex: number,
+  { memoryBudgetBytes, onLoaded }: SnapshotPrefetchOptions
+) {
+  const [snapshots, setSnapshots] = useState<Record<string, RRWebEvent[]>>({});
+  const [fetchingIds, setFetchingIds] = useState<Set<string>>(new Set());
+  // Recordings that loaded with missing chunks or undecodable parts
+  const [snapshotIssues, setSnapshotIssues] = useState<Record<string, SnapshotIssues>>({});
+  // Only shown for the recording on screen, prefetch failures are retried later
+  const [snapshotError, setSnapshotError] = useState<{ recordingId: string; message: string } | null>(null);
+
+  // Estimated size of everything loaded or loading, for the budget
+  const sizesRef = useRef<Map<string, number>>(new Map());
+  const inFlightRef = useRef<Map<string, AbortController>>(new Map());
+  // Failed prefetches wait until the user moves before trying again
+  const failedRef = useRef<Set<string>>(new Set());
+  const statsRef = useRef(createDownloadStats());
+  const planRef = useRef<PrefetchPlan & { ids: string[]; currentIndex: number }>({
+    ids: [],
+    currentIndex: 0,
+    wanted: [],
+    keep: new Set(),
+  });
+  const recordingsRef = useRef(recordings);
+  recordingsRef.current = recordings;
+  const onLoadedRef = useRef(onLoaded);
+  onLoadedRef.current = onLoaded;
+
+  const forget = useCallback((recordingId: string) => {
+    sizesRef.current.delete(recordingId);
+    setSnapshots(prev => {
+      if (!(recordingId in prev)) return prev;
+      const next = { ...prev };
+      delete next[recordingId];
+      return next;
+    });
+  }, []);
+
+  const stopFetching = useCallback((recordingId: string) => {
+    inFlightRef.current.delete(recordingId);
+    setFetchingIds(prev => {
+      if (!prev.has(recordingId)) return prev;
+      const next = new Set(prev);
+      next.delete(recordingId);
+      return next;
+    });
+  }, []);
+
+  // Drop a download and whatever it streamed in so far
+  const cancel = useCallback((recordingId: string) => {
+    const controller = inFlightRef.current.get(recordingId);
+    if (!controller) return;
+    console.log(`✋ Cancelling snapshots for ${recordingId}`);
+    controller.abort();
+    stopFetching(recordingId);
+    forget(recordingId);
+  }, [forget, stopFetching]);
+
+  // Set below, a finished download frees a slot for the next one
+  const scheduleRef = useRef<() => void>(() => {});
+
+  const fetchSnapshots = useCallback(async (recording: SessionRecording, controller: AbortController) => {
+    const recordingId = recording.id;
+    const isCurrent = () => planRef.current.ids[planRef.current.currentIndex] === recordingId;
+
+    try {
+      console.log(`${isCurrent() ? '🎯' : '⏳'} Fetching snapshots for recording ${recordingId}...`);
+
+      // Finished recordings never change, so a local copy is as good as a fresh one
+      const isCacheable = recording.ongoing === false;
+      const idbKey = getSnapshotIdbKey(host, projectId, recordingId);
+      if (isCacheable) {
+        const cached = await getCachedSnapshots(idbKey);
+        if (controller.signal.aborted) return;
+        if (cached && cached.length > 0) {
+          // Entries from before batches were sorted on arrival may be out of order
+          sortByTimestamp(cached);
+          sizesRef.current.set(recordingId, estimateEventsSize(cached));
+          setSnapshots(prev => ({ ...prev, [recordingId]: cached }));
+          onLoadedRef.current?.(recordingId, cached);
+          console.log(`⚡ Loaded ${cached.length} snapshots for ${recordingId} from IndexedDB`);
+          return;
+        }
+      }
+
+      const startedAt = performance.now();
+      const response = await fetch(`/api/replays/${encodeURIComponent(recordingId)}/snapshots?stream=1`, { signal: controller.signal });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        console.error('Failed to fetch snapshots:', response.status, errorData);
+        throw new Error(`HTTP ${response.status}: ${errorData.error || 'Failed to fetch snapshots'}`);
+      }
+
+      // Append each batch as it streams in so playback can start early
+      const received: RRWebEvent[] = [];
+      const batchWarnings: SnapshotWarning[][] = [];
+      let failedBatches = 0;
+      let totalBatches = 0;
+      let size = 0;
+      let finished = false;
+      await readSnapshotStream(response, (message) => {
+        if (controller.signal.aborted) return;
+        if (message.type === 'batch') {
+          totalBatches = message.totalBatches;
+          if (message.warnings) {
+            batchWarnings.push(message.warnings);
+          }
+          if (message.events.length === 0) return;
+          for (const event of message.events) {
+            received.push(event);
+          }
+          size += estimateEventsSize(message.events);
+          sizesRef.current.set(recordingId, size);
+          setSnapshots(prev => ({
+            ...prev,
+            [recordingId]: [...(prev[recordingId] || []), ...message.events],
+          }));
+        } else if (message.type === 'batch_error') {
+          totalBatches = message.totalBatches;
+          failedBatches++;
+          console.warn(`Batch ${message.batch + 1}/${message.totalBatches} failed for ${recordingId}:`, message.message);
+        } else if (message.type === 'done') {
+          finished = true;
+        }
+      });
+      if (controller.signal.aborted) return;
+
+      // A dropped connection ends the body early without `done`, and a
+      // truncated recording must never end up cached as the whole thing
+      if (!finished) {
+        throw new Error('The snapshot stream stopped before finishing');
+      }
+
+      // A partial replay plays, but shouldn't pass for a complete one
+      const warnings = mergeSnapshotWarnings(batchWarnings);
+      setSnapshotIssues(prev => {
+        const next = { ...prev };
+        if (failedBatches > 0 || warnings.length > 0) {
+          next[recordingId] = { failedBatches, totalBatches, warnings };
+        } else {
+          delete next[recordingId];
+        }
+        return next;
+      });
+
+      if (received.length === 0) {
+        throw new Error('No snapshot data found in response');
+      }
+
+      // Streamed batches were appended as they came, splitting by window
+      // needs one timeline. Same events, so a running player isn't fed any twice.
+      sortByTimestamp(received);
+      setSnapshots(prev => ({ ...prev, [recordingId]: received }));
+
+      console.log(`✅ Loaded ${received.length} snapshots for ${recordingId}`);
+      statsRef.current.record(size, performance.now() - startedAt);
+      onLoadedRef.current?.(recordingId, received);
+
+      if (isCacheable && failedBatches === 0) {
+        void putCachedSnapshots(idbKey, received);
+      }
+    } catch (err) {
+      // Cancelled on purpose, `cancel` already cleaned up
+      if (controller.signal.aborted) return;
+
+      console.error('Error fetching snapshots:', err);
+      // Drop any partial stream so Retry starts from scratch
+      forget(recordingId);
+      failedRef.current.add(recordingId);
+      if (isCurrent()) {
+        setSnapshotError({
+          recordingId,
+          message: err instanceof Error ? err.message : 'Failed to load snapshot data',
+        });
+      }
+    } finally {
+      if (inFlightRef.current.get(recordingId) === controller) {
+        stopFetching(recordingId);
+        scheduleRef.current();
+      }
+    }
+  }, [host, projectId, forget, stopFetching]);
+
+  const start = useCallback((recording: SessionRecording) => {
+    const controller = new AbortController();
+    inFlightRef.current.set(recording.id, controller);
+    setFetchingIds(prev => new Set(prev).add(recording.id));
+    setSnapshotError(prev => (prev?.recordingId === recording.id ? null : prev));
+    void fetchSnapshots(recording, controller);
+  }, [fetchSnapshots]);
+
+  scheduleRef.current = () => {
+    const { ids, currentIndex: index, wanted, keep } = planRef.current;
+    const inFlight = inFlightRef.current;
+
+    // The user jumped away from these
+    for (const recordingId of Array.from(inFlight.keys())) {
+      if (!keep.has(recordingId)) cancel(recordingId);
+    }
+
+    const byId = new Map(recordingsRef.current.map(recording => [recording.id, recording]));
+    const pending = wanted.filter(recordingId =>
+      byId.has(recordingId) &&
+      !sizesRef.current.has(recordingId) &&
+      !inFlight.has(recordingId) &&
+      !failedRef.current.has(recordingId)
+    );
+
+    // The current recording doesn't wait behind prefetches, the least
+    // urgent one makes room and gets picked up again later
+    if (pending[0] === ids[index] && inFlight.size >= MAX_CONCURRENT_FETCHES) {
+      const priority = (recordingId: string) => {
+        const position = wanted.indexOf(recordingId);
+        return position === -1 ? Infinity : position;
+      };
+      const leastUrgent = Array.from(inFlight.keys()).sort((a, b) => priority(b) - priority(a))[0];
+      cancel(leastUrgent);
+    }
+
+    for (const recordingId of pending) {
+      if (inFlight.size >= MAX_CONCURRENT_FETCHES) break;
+      start(byId.get(recordingId)!);
+    }
+
+    for (const recordingId of chooseEvictions(sizesRef.current, ids, index, keep, memoryBudgetBytes)) {
+      console.log(`🧹 Evicting snapshots for ${recordingId}`);
+      cancel(recordingId);
+      forget(recordingId);
+    }
+  };
+
+  const currentId = recordings[currentIndex]?.id;
+  // Moving on is a good time to give failed prefetches another go
+  useEffect(() => {
+    failedRef.current.clear();
+  }, [currentId]);
+
+  useEffect(() => {
+    const config = { ...DEFAULT_PREFETCH_CONFIG, memoryBudgetBytes };
+    const ids = recordings.map(recording => recording.id);
+    const depth = getPrefetchDepth(config, statsRef.current);
+    planRef.current = { ids, currentIndex, ...planPrefetch(ids, currentIndex, depth, config) };
+    scheduleRef.current();
+  }, [recordings, currentIndex, memoryBudgetBytes]);
+
+  // Nothing keeps downloading once the feed is gone
+  useEffect(() => {
+    const inFlight = inFlightRef.current;
+    return () => {
+      for (const controller of inFlight.values()) controller.abort();
+    };
+  }, []);
+
+  const retry = useCallback((recordingId: string) => {
+    failedRef.current.delete(recordingId);
+    scheduleRef.current();
+  }, []);
+
+  return {
+    snapshots,
+    fetchingIds,
+    snapshotIssues,
+    snapshotError: snapshotError?.recordingId === currentId ? snapshotError.message : null,
+    retry,
+  };
+}
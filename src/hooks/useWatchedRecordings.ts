@@ -0,0 +1,43 @@
+import { useCallback, useMemo } from 'react';
+import { useLocalStorage } from './useLocalStorage';
+
+interface ProjectScope {
+  host: string;
+  projectId: string;
+}
+
+// Oldest entries get dropped past this, localStorage is small
+const MAX_WATCHED_ENTRIES = 5000;
+
+// Recordings watched in TikHog, keyed by host|project|recording with the
+// time they were marked
+export function useWatchedRecordings({ host, projectId }: ProjectScope) {
+  const [watched, setWatched] = useLocalStorage<Record<string, string>>('posthog-watched-recordings', {});
+
+  const prefix = `${host}|${projectId}|`;
+
+  const watchedIds = useMemo(
+    () =>
+      new Set(
+        Object.keys(watched)
+          .filter((key) => key.startsWith(prefix))
+          .map((key) => key.slice(prefix.length))
+      ),
+    [watched, prefix]
+  );
+
+  const markWatched = useCallback((recordingId: string) => {
+    const key = prefix + recordingId;
+    if (watched[key]) return;
+
+    let entries = Object.entries({ ...watched, [key]: new Date().toISOString() });
+    if (entries.length > MAX_WATCHED_ENTRIES) {
+      entries = entries
+        .sort(([, a], [, b]) => a.localeCompare(b))
+        .slice(entries.length - MAX_WATCHED_ENTRIES);
+    }
+    setWatched(Object.fromEntries(entries));
+  }, [watched, setWatched, prefix]);
+
+  return { watchedIds, markWatched };
+}
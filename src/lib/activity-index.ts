@@ -0,0 +1,209 @@
+import type { RRWebEvent } from '@/types/posthog';
+
+// rrweb event and incremental source numbers we care about
+// (see rrweb's EventType / IncrementalSource / MouseInteractions enums)
+const EventType = {
+  FullSnapshot: 2,
+  IncrementalSnapshot: 3,
+  Meta: 4,
+  Custom: 5,
+  Plugin: 6,
+} as const;
+
+const IncrementalSource = {
+  MouseInteraction: 2,
+  Input: 5,
+} as const;
+
+const MOUSE_CLICK = 2;
+
+// Rage click: this many clicks, each within the window of the previous one,
+// all within the radius of the first
+const RAGE_CLICK_COUNT = 3;
+const RAGE_CLICK_WINDOW_MS = 1000;
+const RAGE_CLICK_RADIUS_PX = 30;
+// Typing into the same field is one marker until it pauses this long
+const INPUT_MERGE_WINDOW_MS = 1000;
+
+export type ActivityKind = 'click' | 'rage_click' | 'navigation' | 'input' | 'error' | 'custom';
+
+export interface ActivityMarker {
+  kind: ActivityKind;
+  timestamp: number;
+  offsetMs: number; // from the start of the recording
+  label: string;
+}
+
+export interface ActivityIndex {
+  startTime: number;
+  endTime: number;
+  durationMs: number;
+  markers: ActivityMarker[];
+  counts: Record<ActivityKind, number>;
+}
+
+export const ACTIVITY_KINDS: ActivityKind[] = ['click', 'rage_click', 'navigation', 'input', 'error', 'custom'];
+
+interface ClickPoint {
+  timestamp: number;
+  x: number;
+  y: number;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' ? (value as Record<string, unknown>) : null;
+}
+
+function findRageClicks(clicks: ClickPoint[]): ClickPoint[][] {
+  const clusters: ClickPoint[][] = [];
+  let cluster: ClickPoint[] = [];
+
+  const flush = () => {
+    if (cluster.length >= RAGE_CLICK_COUNT) clusters.push(cluster);
+  };
+
+  for (const click of clicks) {
+    const first = cluster[0];
+    const last = cluster[cluster.length - 1];
+    const continuesCluster =
+      last &&
+      click.timestamp - last.timestamp <= RAGE_CLICK_WINDOW_MS &&
+      Math.hypot(click.x - first.x, click.y - first.y) <= RAGE_CLICK_RADIUS_PX;
+
+    if (continuesCluster) {
+      cluster.push(click);
+    } else {
+      flush();
+      cluster = [click];
+    }
+  }
+  flush();
+
+  return clusters;
+}
+
+// Console plugin payloads carry the arguments as strings already
+function describeConsolePayload(payload: Record<string, unknown>): string {
+  const args = Array.isArray(payload.payload) ? payload.payload : [];
+  const text = args.map((arg) => String(arg)).join(' ');
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text || 'console error';
+}
+
+// Walk the event stream once and pull out the moments worth jumping to
+export function buildActivityIndex(events: RRWebEvent[]): ActivityIndex {
+  const counts = Object.fromEntries(ACTIVITY_KINDS.map((kind) => [kind, 0])) as Record<ActivityKind, number>;
+
+  if (events.length === 0) {
+    return { startTime: 0, endTime: 0, durationMs: 0, markers: [], counts };
+  }
+
+  let startTime = Infinity;
+  let endTime = -Infinity;
+  for (const event of events) {
+    if (event.timestamp < startTime) startTime = event.timestamp;
+    if (event.timestamp > endTime) endTime = event.timestamp;
+  }
+
+  const markers: ActivityMarker[] = [];
+  const clicks: ClickPoint[] = [];
+  const add = (kind: ActivityKind, timestamp: number, label: string) => {
+    markers.push({ kind, timestamp, offsetMs: timestamp - startTime, label });
+    counts[kind]++;
+  };
+
+  let lastHref: string | null = null;
+  let lastInput: { id: unknown; timestamp: number } | null = null;
+
+  const sorted = [...events].sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const event of sorted) {
+    const data = asRecord(event.data);
+    if (!data) continue;
+
+    switch (event.type) {
+      case EventType.Meta: {
+        const href = typeof data.href === 'string' ? data.href : null;
+        if (href && href !== lastHref) {
+          add('navigation', event.timestamp, href);
+          lastHref = href;
+        }
+        break;
+      }
+
+      case EventType.IncrementalSnapshot: {
+        if (data.source === IncrementalSource.MouseInteraction && data.type === MOUSE_CLICK) {
+          clicks.push({ timestamp: event.timestamp, x: Number(data.x) || 0, y: Number(data.y) || 0 });
+          add('click', event.timestamp, 'Click');
+        } else if (data.source === IncrementalSource.Input) {
+          const isSameInput =
+            lastInput &&
+            lastInput.id === data.id &&
+            event.timestamp - lastInput.timestamp <= INPUT_MERGE_WINDOW_MS;
+          if (!isSameInput) {
+            add('input', event.timestamp, 'Input');
+          }
+          lastInput = { id: data.id, timestamp: event.timestamp };
+        }
+        break;
+      }
+
+      case EventType.Custom: {
+        const tag = typeof data.tag === 'string' ? data.tag : 'custom';
+        const isError = /exception|error/i.test(tag);
+        add(isError ? 'error' : 'custom', event.timestamp, tag);
+        break;
+      }
+
+      case EventType.Plugin: {
+        const plugin = typeof data.plugin === 'string' ? data.plugin : '';
+        const payload = asRecord(data.payload);
+        if (plugin.includes('console') && payload && payload.level === 'error') {
+          add('error', event.timestamp, describeConsolePayload(payload));
+        }
+        break;
+      }
+    }
+  }
+
+  for (const cluster of findRageClicks(clicks)) {
+    add('rage_click', cluster[0].timestamp, `Rage click (${cluster.length} clicks)`);
+  }
+
+  markers.sort((a, b) => a.timestamp - b.timestamp);
+
+  return { startTime, endTime, durationMs: endTime - startTime, markers, counts };
+}
+
+// Incremental sources rrweb counts as the user doing something: mouse move,
+// mouse interaction, scroll, viewport resize, input
+const USER_INTERACTION_SOURCES = new Set([1, 2, 3, 4, 5]);
+
+export interface InactivePeriod {
+  startMs: number; // offsets from the start of the recording
+  endMs: number;
+}
+
+// Stretches longer than `thresholdMs` without any user interaction, including
+// before the first one and after the last
+export function findInactivePeriods(events: RRWebEvent[], index: ActivityIndex, thresholdMs: number): InactivePeriod[] {
+  const periods: InactivePeriod[] = [];
+  let lastActiveMs = 0;
+
+  const addGap = (untilMs: number) => {
+    if (untilMs - lastActiveMs > thresholdMs) {
+      periods.push({ startMs: lastActiveMs, endMs: untilMs });
+    }
+  };
+
+  for (const event of events) {
+    const source = asRecord(event.data)?.source;
+    if (event.type !== EventType.IncrementalSnapshot || !USER_INTERACTION_SOURCES.has(source as number)) continue;
+
+    const offsetMs = event.timestamp - index.startTime;
+    addGap(offsetMs);
+    lastActiveMs = Math.max(lastActiveMs, offsetMs);
+  }
+  addGap(index.durationMs);
+
+  return periods;
+}
@@ -0,0 +1,46 @@
+export interface Limiter {
+  run<R>(fn: () => Promise<R>): Promise<R>;
+}
+
+// At most `limit` calls to `run` in flight at once, the rest wait their turn
+// in the order they were made
+export function createLimiter(limit: number): Limiter {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const acquire = (): Promise<void> => {
+    if (active < limit) {
+      active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => waiting.push(resolve));
+  };
+
+  const release = () => {
+    const next = waiting.shift();
+    if (next) {
+      // Hand the slot straight to the next waiter
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  return {
+    run: (fn) => acquire().then(fn).finally(release),
+  };
+}
+
+// Run `fn` over `items` with at most `limit` calls in flight at once.
+//
+// Returns one promise per item, in input order, so callers can either await
+// them all or consume results in order as soon as each one is ready. Items
+// start in input order, which keeps early batches of a recording first in line.
+export function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R>[] {
+  const limiter = createLimiter(limit);
+  return items.map((item, index) => limiter.run(() => fn(item, index)));
+}
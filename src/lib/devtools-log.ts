@@ -0,0 +1,130 @@
+import type { RRWebEvent } from '@/types/posthog';
+
+// Console logs and network requests recorded by the rrweb console plugin and
+// PostHog's network plugin (both arrive as plugin events, type 6)
+
+const PLUGIN_EVENT = 6;
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export const CONSOLE_LEVELS: ConsoleLevel[] = ['log', 'info', 'warn', 'error', 'debug'];
+
+interface BaseEntry {
+  timestamp: number;
+  offsetMs: number; // from the start of the recording
+}
+
+export interface ConsoleEntry extends BaseEntry {
+  kind: 'console';
+  level: ConsoleLevel;
+  message: string;
+}
+
+export interface NetworkEntry extends BaseEntry {
+  kind: 'network';
+  method: string;
+  url: string;
+  status?: number;
+  durationMs?: number;
+  initiatorType?: string;
+}
+
+export interface DevtoolsLog {
+  console: ConsoleEntry[];
+  network: NetworkEntry[];
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' ? (value as Record<string, unknown>) : null;
+}
+
+function toNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function normalizeLevel(level: unknown): ConsoleLevel {
+  if (level === 'warning') return 'warn';
+  if (level === 'trace' || level === 'debug') return 'debug';
+  return CONSOLE_LEVELS.includes(level as ConsoleLevel) ? (level as ConsoleLevel) : 'log';
+}
+
+// The console plugin stringifies each argument, strings arrive JSON-quoted
+function formatConsoleArgs(args: unknown): string {
+  if (!Array.isArray(args)) return String(args ?? '');
+
+  return args
+    .map((arg) => {
+      if (typeof arg !== 'string') return JSON.stringify(arg);
+      try {
+        const parsed = JSON.parse(arg);
+        return typeof parsed === 'string' ? parsed : arg;
+      } catch {
+        return arg;
+      }
+    })
+    .join(' ');
+}
+
+export function buildDevtoolsLog(events: RRWebEvent[], startTime: number): DevtoolsLog {
+  const log: DevtoolsLog = { console: [], network: [] };
+
+  for (const event of events) {
+    if (event.type !== PLUGIN_EVENT) continue;
+
+    const data = asRecord(event.data);
+    const plugin = typeof data?.plugin === 'string' ? data.plugin : '';
+    const payload = asRecord(data?.payload);
+    if (!payload) continue;
+
+    if (plugin.includes('console')) {
+      log.console.push({
+        kind: 'console',
+        level: normalizeLevel(payload.level),
+        message: formatConsoleArgs(payload.payload),
+        timestamp: event.timestamp,
+        offsetMs: event.timestamp - startTime,
+      });
+    } else if (plugin.includes('network')) {
+      const requests = Array.isArray(payload.requests) ? payload.requests : [];
+      for (const raw of requests) {
+        const request = asRecord(raw);
+        if (!request) continue;
+
+        const timestamp = toNumber(request.timestamp) ?? event.timestamp;
+        log.network.push({
+          kind: 'network',
+          method: typeof request.method === 'string' ? request.method : 'GET',
+          url: String(request.name ?? request.url ?? ''),
+          status: toNumber(request.responseStatus) ?? toNumber(request.status),
+          durationMs: toNumber(request.duration),
+          initiatorType: typeof request.initiatorType === 'string' ? request.initiatorType : undefined,
+          timestamp,
+          offsetMs: timestamp - startTime,
+        });
+      }
+    }
+  }
+
+  log.console.sort((a, b) => a.timestamp - b.timestamp);
+  log.network.sort((a, b) => a.timestamp - b.timestamp);
+  return log;
+}
+
+// Index of the last entry at or before `offsetMs`, or -1
+export function findActiveEntry(entries: BaseEntry[], offsetMs: number): number {
+  let low = 0;
+  let high = entries.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (entries[mid].offsetMs <= offsetMs) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+}
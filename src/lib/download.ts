@@ -0,0 +1,14 @@
+// How long a blob URL outlives the click that downloads it. Safari and
+// Firefox can still be reading it well after click() returns, and revoking it
+// early cancels the download.
+const REVOKE_DELAY_MS = 30_000;
+
+// Save a blob made in the browser as a file
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
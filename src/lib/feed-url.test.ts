@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { buildFeedUrl, parseFeedUrl, type FeedUrlState } from './feed-url';
+
+function roundTrip(state: FeedUrlState): FeedUrlState {
+  const url = new URL(buildFeedUrl(state), 'https://tikhog.example');
+  return parseFeedUrl(url.pathname, url.search);
+}
+
+const BASE: FeedUrlState = { recordingId: 'abc', startOffsetSeconds: null, view: 'feed', ranking: null, filters: null };
+
+describe('feed URLs', () => {
+  it('says so when every filter is cleared', () => {
+    expect(buildFeedUrl({ ...BASE, filters: {} })).toBe('/replay/abc?filters=none');
+    expect(roundTrip({ ...BASE, filters: {} }).filters).toEqual(expect.objectContaining({
+      minDuration: undefined,
+      minInteractions: undefined,
+      includeOngoing: false,
+    }));
+  });
+
+  it("leaves filters alone when the link doesn't mention them", () => {
+    expect(parseFeedUrl('/replay/abc', '').filters).toBeNull();
+  });
+
+  it('keeps the filters a link was made with', () => {
+    const filters = { minDuration: 30, startUrlContains: 'checkout', personProperty: { key: 'plan', value: 'pro' } };
+    expect(roundTrip({ ...BASE, filters }).filters).toEqual(expect.objectContaining(filters));
+  });
+});
@@ -0,0 +1,137 @@
+import { countActiveFilters, parseRecordingFilters, type RecordingFilters } from '@/lib/recording-filters';
+import { isRankingStrategy, type RankingStrategy } from '@/lib/recording-ranking';
+
+// The API-driven feed, or the user's saved collection
+export type FeedView = 'feed' | 'saved';
+
+// Where the user is in the feed, as it appears in the address bar:
+// /replay/<id>?t=92&view=saved&ranking=newest&minDuration=30...
+export interface FeedUrlState {
+  recordingId: string | null;
+  startOffsetSeconds: number | null;
+  view: FeedView;
+  ranking: RankingStrategy | null;
+  filters: RecordingFilters | null; // null when the URL doesn't say
+}
+
+const REPLAY_PATH = /^\/replay\/([^/]+)\/?$/;
+
+// Scalar filters map straight onto a query param of the same name
+const FILTER_PARAMS = [
+  'minDuration',
+  'maxDuration',
+  'minClicks',
+  'minKeypresses',
+  'minInteractions',
+  'startUrlContains',
+  'startUrlRegex',
+  'personDistinctId',
+  'dateFrom',
+  'dateTo',
+] as const;
+
+// ?filters=none: every filter cleared. Without it a link with no filter
+// params would show whatever filters the person opening it has stored.
+const NO_FILTERS_PARAM = 'filters';
+const NO_FILTERS_VALUE = 'none';
+
+export function getReplayPath(recordingId: string): string {
+  return `/replay/${encodeURIComponent(recordingId)}`;
+}
+
+// Link to a recording in this app, optionally starting part way through
+export function getShareUrl(origin: string, recordingId: string, startOffsetSeconds?: number): string {
+  const url = new URL(getReplayPath(recordingId), origin);
+  if (startOffsetSeconds && startOffsetSeconds > 0) {
+    url.searchParams.set('t', String(Math.floor(startOffsetSeconds)));
+  }
+  return url.toString();
+}
+
+function parseFiltersParams(params: URLSearchParams): RecordingFilters | null {
+  const raw: Record<string, unknown> = {};
+  let hasAny = params.get(NO_FILTERS_PARAM) === NO_FILTERS_VALUE;
+
+  for (const name of FILTER_PARAMS) {
+    const value = params.get(name);
+    if (value !== null) {
+      raw[name] = value;
+      hasAny = true;
+    }
+  }
+  if (params.get('includeOngoing') === 'true') {
+    raw.includeOngoing = true;
+    hasAny = true;
+  }
+  const personKey = params.get('personKey');
+  if (personKey !== null) {
+    raw.personProperty = { key: personKey, value: params.get('personValue') ?? '' };
+    hasAny = true;
+  }
+
+  if (!hasAny) return null;
+
+  // A hand-edited link with bad filters falls back to the stored ones
+  const result = parseRecordingFilters(raw);
+  return 'filters' in result ? result.filters : null;
+}
+
+// A mangled link (e.g. /replay/%E0) just doesn't point at a recording
+function decodeRecordingId(encoded: string): string | null {
+  try {
+    return decodeURIComponent(encoded);
+  } catch {
+    return null;
+  }
+}
+
+export function parseFeedUrl(pathname: string, search: string): FeedUrlState {
+  const params = new URLSearchParams(search);
+  const match = REPLAY_PATH.exec(pathname);
+  const t = Number(params.get('t'));
+  const ranking = params.get('ranking');
+
+  return {
+    recordingId: match ? decodeRecordingId(match[1]) : null,
+    startOffsetSeconds: Number.isFinite(t) && t > 0 ? t : null,
+    view: params.get('view') === 'saved' ? 'saved' : 'feed',
+    ranking: isRankingStrategy(ranking) ? ranking : null,
+    filters: parseFiltersParams(params),
+  };
+}
+
+export function buildFeedUrl(state: FeedUrlState): string {
+  const params = new URLSearchParams();
+
+  if (state.startOffsetSeconds && state.startOffsetSeconds > 0) {
+    params.set('t', String(Math.floor(state.startOffsetSeconds)));
+  }
+  if (state.view === 'saved') {
+    params.set('view', 'saved');
+  }
+  if (state.ranking) {
+    params.set('ranking', state.ranking);
+  }
+
+  const filters = state.filters ?? {};
+  if (state.filters && countActiveFilters(state.filters) === 0) {
+    params.set(NO_FILTERS_PARAM, NO_FILTERS_VALUE);
+  }
+  for (const name of FILTER_PARAMS) {
+    const value = filters[name];
+    if (value !== undefined && value !== '') {
+      params.set(name, String(value));
+    }
+  }
+  if (filters.includeOngoing) {
+    params.set('includeOngoing', 'true');
+  }
+  if (filters.personProperty) {
+    params.set('personKey', filters.personProperty.key);
+    params.set('personValue', filters.personProperty.value);
+  }
+
+  const path = state.recordingId ? getReplayPath(state.recordingId) : '/';
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+}
@@ -0,0 +1,91 @@
+// Timestamped notes on recordings.
+//
+// Everything goes through the async NotesStore interface so the localStorage
+// implementation below can be swapped for one that calls an API route (and a
+// shared server-side store) without touching the hook or the UI.
+
+export interface RecordingNote {
+  id: string;
+  recordingId: string;
+  timeOffsetMs: number; // position in the recording the note refers to
+  text: string;
+  createdAt: string; // ISO date string
+}
+
+export interface NotesScope {
+  host: string;
+  projectId: string;
+}
+
+export interface NotesStore {
+  // Every note in the project, grouped by recording ID
+  listAll(scope: NotesScope): Promise<Record<string, RecordingNote[]>>;
+  add(scope: NotesScope, note: Omit<RecordingNote, 'id' | 'createdAt'>): Promise<RecordingNote>;
+  remove(scope: NotesScope, recordingId: string, noteId: string): Promise<void>;
+}
+
+const STORAGE_KEY = 'posthog-recording-notes';
+
+type StoredNotes = Record<string, Record<string, RecordingNote[]>>; // scope -> recording -> notes
+
+function scopeKey({ host, projectId }: NotesScope): string {
+  return `${host}|${projectId}`;
+}
+
+function readStoredNotes(): StoredNotes {
+  try {
+    const item = window.localStorage.getItem(STORAGE_KEY);
+    return item ? JSON.parse(item) : {};
+  } catch (error) {
+    console.error(`Error reading localStorage key "${STORAGE_KEY}":`, error);
+    return {};
+  }
+}
+
+function writeStoredNotes(notes: StoredNotes) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(notes));
+}
+
+function createNoteId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+export const localNotesStore: NotesStore = {
+  async listAll(scope) {
+    return readStoredNotes()[scopeKey(scope)] ?? {};
+  },
+
+  async add(scope, note) {
+    const created: RecordingNote = { ...note, id: createNoteId(), createdAt: new Date().toISOString() };
+    const stored = readStoredNotes();
+    const projectNotes = stored[scopeKey(scope)] ?? {};
+    const recordingNotes = [...(projectNotes[note.recordingId] ?? []), created]
+      .sort((a, b) => a.timeOffsetMs - b.timeOffsetMs);
+
+    writeStoredNotes({
+      ...stored,
+      [scopeKey(scope)]: { ...projectNotes, [note.recordingId]: recordingNotes },
+    });
+    return created;
+  },
+
+  async remove(scope, recordingId, noteId) {
+    const stored = readStoredNotes();
+    const projectNotes = { ...(stored[scopeKey(scope)] ?? {}) };
+    const remaining = (projectNotes[recordingId] ?? []).filter((note) => note.id !== noteId);
+
+    if (remaining.length > 0) {
+      projectNotes[recordingId] = remaining;
+    } else {
+      delete projectNotes[recordingId];
+    }
+
+    writeStoredNotes({ ...stored, [scopeKey(scope)]: projectNotes });
+  },
+};
+
+// The store the app uses. Point this at a server-backed implementation to
+// share notes across the team.
+export const notesStore: NotesStore = localNotesStore;
@@ -0,0 +1,126 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createPosthogClient, PosthogError } from './posthog-client';
+
+// The same client against a real HTTP server on a free port, so headers,
+// bodies, timeouts and aborts go through Node's fetch rather than a stub
+
+type Handler = (request: IncomingMessage, response: ServerResponse) => void;
+
+let server: Server;
+let host: string;
+let handler: Handler;
+
+let keyCounter = 0;
+function newClient(options: { timeoutMs?: number; maxAttempts?: number } = {}) {
+  keyCounter++;
+  return createPosthogClient({ host, apiKey: `phx_server_test_${keyCounter}`, baseDelayMs: 10, ...options });
+}
+
+beforeEach(async () => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  server = createServer((request, response) => handler(request, response));
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  host = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  server.closeAllConnections();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+function sendJson(response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify(body));
+}
+
+describe('against a local server', () => {
+  it('sends the key as a bearer token and reads the JSON body', async () => {
+    const seen: { url?: string; authorization?: string }[] = [];
+    handler = (request, response) => {
+      seen.push({ url: request.url, authorization: request.headers.authorization });
+      sendJson(response, 200, { results: [1, 2] });
+    };
+
+    await expect(newClient().getJson('/api/projects/1/session_recordings?limit=2')).resolves.toEqual({ results: [1, 2] });
+    expect(seen).toEqual([{ url: '/api/projects/1/session_recordings?limit=2', authorization: `Bearer phx_server_test_${keyCounter}` }]);
+  });
+
+  it('reads bytes as sent', async () => {
+    handler = (_request, response) => {
+      response.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+      response.end(Buffer.from([0x1f, 0x8b, 0x00, 0xff]));
+    };
+
+    expect(Array.from(await newClient().getBytes('/blob'))).toEqual([0x1f, 0x8b, 0x00, 0xff]);
+  });
+
+  it('waits for the Retry-After header before trying again', async () => {
+    const times: number[] = [];
+    handler = (_request, response) => {
+      times.push(Date.now());
+      if (times.length === 1) {
+        sendJson(response, 429, { detail: 'Request was throttled' }, { 'Retry-After': '1' });
+      } else {
+        sendJson(response, 200, { ok: true });
+      }
+    };
+
+    await expect(newClient().getJson('/api/projects/1')).resolves.toEqual({ ok: true });
+    expect(times).toHaveLength(2);
+    expect(times[1] - times[0]).toBeGreaterThanOrEqual(950);
+  });
+
+  it('keeps the error body of a failed request', async () => {
+    handler = (_request, response) => sendJson(response, 403, { detail: 'Missing scope' });
+
+    await expect(newClient().getJson('/api/projects/1')).rejects.toMatchObject({
+      kind: 'forbidden',
+      status: 403,
+      details: { detail: 'Missing scope' },
+    });
+  });
+
+  it('times out while the body is still arriving', async () => {
+    handler = (_request, response) => {
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      // Headers and half a body, then nothing
+      response.write('{"results": [');
+    };
+
+    await expect(newClient({ timeoutMs: 200, maxAttempts: 1 }).getJson('/api/projects/1')).rejects.toMatchObject({
+      kind: 'timeout',
+    });
+  });
+
+  it('closes the upstream request when the caller aborts', async () => {
+    let upstreamClosed: Promise<void> | undefined;
+    // Never answers, only notices when the client hangs up
+    handler = (_request, response) => {
+      upstreamClosed = new Promise((resolve) => response.on('close', () => resolve()));
+    };
+    const controller = new AbortController();
+
+    const result = newClient().getJson('/api/projects/1', { signal: controller.signal });
+    await vi.waitFor(() => expect(upstreamClosed).toBeDefined());
+    controller.abort(new Error('browser went away'));
+
+    const error = await result.catch((err: unknown) => err);
+    expect(error).not.toBeInstanceOf(PosthogError);
+    expect((error as Error).message).toBe('browser went away');
+    await upstreamClosed;
+  });
+
+  it('reports a host that refuses connections as unreachable', async () => {
+    // A port that was free a moment ago and has nothing listening now
+    const closed = createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const { port } = closed.address() as AddressInfo;
+    await new Promise<void>((resolve) => closed.close(() => resolve()));
+
+    const client = createPosthogClient({ host: `http://127.0.0.1:${port}`, apiKey: 'phx_server_test_closed', maxAttempts: 1 });
+    await expect(client.getJson('/api/projects/1')).rejects.toMatchObject({ kind: 'unreachable' });
+  });
+});
@@ -0,0 +1,256 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { countTrackedKeys, createPosthogClient, PosthogError, posthogErrorResponse } from './posthog-client';
+
+const HOST = 'https://us.posthog.com';
+
+// Every test gets its own key, per-key state lives for the whole module
+let keyCounter = 0;
+function newClient(options: { timeoutMs?: number; maxAttempts?: number; baseDelayMs?: number } = {}) {
+  keyCounter++;
+  return createPosthogClient({ host: HOST, apiKey: `phx_test_${keyCounter}`, baseDelayMs: 100, ...options });
+}
+
+function jsonResponse(status: number, body: unknown = {}, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+// A fetch that only settles when the test says so, or rejects when aborted
+function deferredFetch() {
+  const pending: { resolve: (response: Response) => void }[] = [];
+  const fetchMock = vi.fn((_url: string, init?: RequestInit) =>
+    new Promise<Response>((resolve, reject) => {
+      pending.push({ resolve });
+      init?.signal?.addEventListener('abort', () => reject(init.signal?.reason), { once: true });
+    })
+  );
+  return { fetchMock, pending };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  // Full delay, no jitter
+  vi.spyOn(Math, 'random').mockReturnValue(1);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('retries', () => {
+  it('backs off exponentially between retryable failures', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(503))
+      .mockResolvedValueOnce(jsonResponse(502))
+      .mockResolvedValueOnce(jsonResponse(200, { ok: true }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = newClient().getJson<{ ok: boolean }>('/api/projects/1');
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(99);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    // Doubled for the second retry
+    await vi.advanceTimersByTimeAsync(199);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    await expect(result).resolves.toEqual({ ok: true });
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse(500));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = newClient({ maxAttempts: 3 }).getJson('/api/projects/1');
+    const outcome = expect(result).rejects.toMatchObject({ kind: 'upstream', status: 500 });
+    await vi.runAllTimersAsync();
+
+    await outcome;
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("doesn't retry errors that won't change", async () => {
+    const fetchMock = vi.fn(async () => jsonResponse(401, { detail: 'Invalid key' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(newClient().getJson('/api/projects/1')).rejects.toMatchObject({
+      kind: 'unauthorized',
+      status: 401,
+      details: { detail: 'Invalid key' },
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out each attempt', async () => {
+    const { fetchMock } = deferredFetch();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = newClient({ timeoutMs: 1000, maxAttempts: 2 }).getJson('/api/projects/1');
+    const outcome = expect(result).rejects.toMatchObject({ kind: 'timeout' });
+    await vi.runAllTimersAsync();
+
+    await outcome;
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("passes the caller's abort through without retrying", async () => {
+    const { fetchMock } = deferredFetch();
+    vi.stubGlobal('fetch', fetchMock);
+    const controller = new AbortController();
+
+    const result = newClient().getJson('/api/projects/1', { signal: controller.signal });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort(new Error('browser went away'));
+
+    const error = await result.catch((err: unknown) => err);
+    expect(error).not.toBeInstanceOf(PosthogError);
+    expect((error as Error).message).toBe('browser went away');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Retry-After', () => {
+  it('waits as long as PostHog asks and pauses the whole key', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(429, {}, { 'Retry-After': '2' }))
+      .mockImplementation(async () => jsonResponse(200, {}));
+    vi.stubGlobal('fetch', fetchMock);
+    const client = newClient();
+
+    const first = client.getJson('/api/projects/1/a');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // Made during the pause, so it waits too
+    const second = client.getJson('/api/projects/1/b');
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await Promise.all([first, second]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("doesn't pause other keys", async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(429, {}, { 'Retry-After': '5' }))
+      .mockImplementation(async () => jsonResponse(200, {}));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const limited = newClient().getJson('/api/projects/1');
+    await vi.advanceTimersByTimeAsync(0);
+    await expect(newClient().getJson('/api/projects/2')).resolves.toEqual({});
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    await limited;
+  });
+
+  it('gives up right away when the wait is too long', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse(429, {}, { 'Retry-After': '120' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(newClient().getJson('/api/projects/1')).rejects.toMatchObject({
+      kind: 'rate_limited',
+      retryAfterMs: 120_000,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('still pauses the key when the wait is too long', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(429, {}, { 'Retry-After': '120' }))
+      .mockImplementation(async () => jsonResponse(200, {}));
+    vi.stubGlobal('fetch', fetchMock);
+    const client = newClient();
+
+    await expect(client.getJson('/api/projects/1/a')).rejects.toMatchObject({ kind: 'rate_limited' });
+    // Turned away without asking PostHog again
+    await expect(client.getJson('/api/projects/1/b')).rejects.toMatchObject({ kind: 'rate_limited' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(Date.now() + 120_000);
+    await expect(client.getJson('/api/projects/1/c')).resolves.toEqual({});
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('posthogErrorResponse', () => {
+  it("passes on PostHog's detail and nothing else from its body", async () => {
+    const error = new PosthogError('forbidden', "The API key doesn't have access to this", {
+      status: 403,
+      details: { type: 'authentication_error', detail: 'Missing scope session_recording:read', attr: null },
+    });
+
+    const response = posthogErrorResponse(error, 'Failed to fetch recording');
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({
+      error: "Failed to fetch recording: The API key doesn't have access to this",
+      code: 'forbidden',
+      detail: 'Missing scope session_recording:read',
+    });
+  });
+
+  it('keeps network errors on the server', async () => {
+    const error = new PosthogError('unreachable', "Couldn't reach PostHog at https://us.posthog.com", {
+      details: 'getaddrinfo ENOTFOUND internal.example',
+    });
+
+    const body = await posthogErrorResponse(error, 'Failed to fetch recording').json();
+    expect(JSON.stringify(body)).not.toContain('ENOTFOUND');
+    expect(body).not.toHaveProperty('detail');
+  });
+});
+
+describe('per-key concurrency', () => {
+  it('runs at most POSTHOG_MAX_CONCURRENCY requests per key at once', async () => {
+    vi.stubEnv('POSTHOG_MAX_CONCURRENCY', '2');
+    const { fetchMock, pending } = deferredFetch();
+    vi.stubGlobal('fetch', fetchMock);
+    const client = newClient();
+
+    const results = [1, 2, 3, 4, 5].map((n) => client.getJson(`/api/projects/1/${n}`));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    // Another key has its own slots
+    const other = newClient().getJson('/api/projects/2');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    // Finishing one lets exactly one more start, in order
+    pending[0].resolve(jsonResponse(200, {}));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(fetchMock.mock.calls[3][0]).toBe(`${HOST}/api/projects/1/3`);
+
+    for (let i = 1; i < 6; i++) {
+      await vi.advanceTimersByTimeAsync(0);
+      pending[i].resolve(jsonResponse(200, {}));
+    }
+    await Promise.all([...results, other]);
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+  });
+});
+
+describe('key state', () => {
+  it('forgets keys that have been idle for a while', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => jsonResponse(200, {})));
+
+    await newClient().getJson('/api/projects/1');
+    await newClient().getJson('/api/projects/1');
+    expect(countTrackedKeys()).toBeGreaterThanOrEqual(2);
+
+    // Well past the idle time, for keys earlier tests left behind too
+    vi.setSystemTime(Date.now() + 60 * 60 * 1000);
+    await newClient().getJson('/api/projects/1');
+    expect(countTrackedKeys()).toBe(1);
+  });
+});
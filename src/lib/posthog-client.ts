@@ -0,0 +1,338 @@
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { createLimiter, type Limiter } from './concurrency';
+
+// Every server-side request to PostHog goes through here. Requests for the
+// same API key share a small number of slots, so a feed prefetching several
+// recordings doesn't set off PostHog's rate limits, and a 429 pauses the
+// whole key rather than just the request that got it. Failures are retried
+// with backoff and come out as a PosthogError a route can turn into a response.
+
+export type PosthogErrorKind =
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'rate_limited'
+  | 'timeout'
+  | 'unreachable'
+  | 'upstream';
+
+export class PosthogError extends Error {
+  readonly kind: PosthogErrorKind;
+  readonly status?: number; // PostHog's status, when it answered at all
+  readonly retryAfterMs?: number;
+  readonly details?: unknown;
+
+  constructor(
+    kind: PosthogErrorKind,
+    message: string,
+    options: { status?: number; retryAfterMs?: number; details?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'PosthogError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.details = options.details;
+  }
+}
+
+export interface PosthogClientOptions {
+  host: string; // an origin that already went through resolvePosthogHost
+  apiKey: string;
+  timeoutMs?: number; // per attempt, including reading the body
+  maxAttempts?: number;
+  baseDelayMs?: number; // first backoff delay, doubled on each retry
+}
+
+export interface PosthogRequestOptions {
+  signal?: AbortSignal; // e.g. the incoming request's, to stop when the browser goes away
+}
+
+export interface PosthogClient {
+  getJson<T>(path: string, options?: PosthogRequestOptions): Promise<T>;
+  getBytes(path: string, options?: PosthogRequestOptions): Promise<Uint8Array>;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_ATTEMPTS = 4;
+const DEFAULT_BASE_DELAY_MS = 500;
+const MAX_BACKOFF_MS = 10_000;
+// A Retry-After longer than this isn't worth holding the browser's request open for
+const MAX_RETRY_AFTER_MS = 30_000;
+const DEFAULT_MAX_CONCURRENCY = 6;
+// A key nobody has used for this long is forgotten, along with its limiter
+const KEY_STATE_IDLE_MS = 10 * 60 * 1000;
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+// Requests in flight per API key, POSTHOG_MAX_CONCURRENCY to override
+function getMaxConcurrency(): number {
+  const value = Number(process.env.POSTHOG_MAX_CONCURRENCY);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_CONCURRENCY;
+}
+
+interface KeyState {
+  limiter: Limiter;
+  pausedUntil: number; // set by a 429, every request for the key waits for it
+  pending: number; // requests waiting or in flight
+  lastUsed: number;
+}
+
+// Keyed by a hash so raw API keys don't sit in memory any longer than the
+// requests that use them
+const keyStates = new Map<string, KeyState>();
+let lastSweep = 0;
+
+function forgetIdleKeys(now: number) {
+  if (now - lastSweep < KEY_STATE_IDLE_MS / 10) return;
+  lastSweep = now;
+  for (const [id, state] of keyStates) {
+    if (state.pending === 0 && state.pausedUntil <= now && now - state.lastUsed > KEY_STATE_IDLE_MS) {
+      keyStates.delete(id);
+    }
+  }
+}
+
+function getKeyState(host: string, apiKey: string): KeyState {
+  const now = Date.now();
+  forgetIdleKeys(now);
+
+  const id = createHash('sha256').update(`${host} ${apiKey}`).digest('hex');
+  let state = keyStates.get(id);
+  if (!state) {
+    state = { limiter: createLimiter(getMaxConcurrency()), pausedUntil: 0, pending: 0, lastUsed: now };
+    keyStates.set(id, state);
+  }
+  return state;
+}
+
+// For tests, to check idle keys are let go
+export function countTrackedKeys(): number {
+  return keyStates.size;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function errorForStatus(status: number, details: unknown, retryAfterMs?: number): PosthogError {
+  switch (status) {
+    case 401:
+      return new PosthogError('unauthorized', 'PostHog rejected the API key', { status, details });
+    case 403:
+      return new PosthogError('forbidden', "The API key doesn't have access to this", { status, details });
+    case 404:
+      return new PosthogError('not_found', 'Not found in PostHog', { status, details });
+    case 429:
+      return new PosthogError('rate_limited', 'PostHog is rate limiting this API key', { status, details, retryAfterMs });
+    default:
+      return new PosthogError('upstream', `PostHog returned an error (${status})`, { status, details, retryAfterMs });
+  }
+}
+
+function isRetryable(error: PosthogError): boolean {
+  if (error.kind === 'timeout' || error.kind === 'unreachable') return true;
+  return error.status !== undefined && RETRYABLE_STATUSES.has(error.status);
+}
+
+// Exponential with jitter, so requests that failed together don't come back together
+function backoffDelay(baseDelayMs: number, attempt: number): number {
+  const delay = Math.min(MAX_BACKOFF_MS, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+async function readJson<T>(response: Response): Promise<T> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new PosthogError('upstream', "PostHog sent a response that isn't valid JSON", { status: response.status });
+  }
+}
+
+async function readBytes(response: Response): Promise<Uint8Array> {
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+export function createPosthogClient({
+  host,
+  apiKey,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  maxAttempts = DEFAULT_MAX_ATTEMPTS,
+  baseDelayMs = DEFAULT_BASE_DELAY_MS,
+}: PosthogClientOptions): PosthogClient {
+
+  // One try, with its own timeout. The caller's signal aborts it too, but
+  // that comes out as the abort itself, not a PosthogError, so it isn't retried.
+  const attempt = async <T>(url: string, signal: AbortSignal | undefined, read: (response: Response) => Promise<T>) => {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    try {
+      const response = await fetch(url, {
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+        },
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const details = await response.json().catch(() => undefined);
+        throw errorForStatus(response.status, details, parseRetryAfter(response.headers.get('retry-after')));
+      }
+
+      return await read(response);
+    } catch (err) {
+      if (err instanceof PosthogError || signal?.aborted) throw err;
+      if (timedOut) {
+        throw new PosthogError('timeout', `PostHog didn't respond within ${timeoutMs / 1000}s`);
+      }
+      throw new PosthogError('unreachable', `Couldn't reach PostHog at ${host}`, {
+        details: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+
+  const request = async <T>(path: string, { signal }: PosthogRequestOptions, read: (response: Response) => Promise<T>) => {
+    const url = `${host}${path}`;
+    // Looked up per request, a client can outlive its key's idle state
+    const keyState = getKeyState(host, apiKey);
+    keyState.pending++;
+
+    try {
+      for (let attemptNumber = 1; ; attemptNumber++) {
+        try {
+          return await keyState.limiter.run(async () => {
+            const pauseMs = keyState.pausedUntil - Date.now();
+            // Too long to wait for, fail like PostHog would without asking it
+            if (pauseMs > MAX_RETRY_AFTER_MS) {
+              throw errorForStatus(429, undefined, pauseMs);
+            }
+            if (pauseMs > 0) {
+              await sleep(pauseMs, signal);
+            }
+            return attempt(url, signal, read);
+          });
+        } catch (err) {
+          if (!(err instanceof PosthogError) || !isRetryable(err)) throw err;
+
+          const delayMs = err.retryAfterMs ?? backoffDelay(baseDelayMs, attemptNumber);
+          // Even when this request gives up, the rest of the key's requests wait
+          if (err.kind === 'rate_limited') {
+            keyState.pausedUntil = Math.max(keyState.pausedUntil, Date.now() + delayMs);
+          }
+          if (attemptNumber >= maxAttempts) throw err;
+          if (err.retryAfterMs !== undefined && err.retryAfterMs > MAX_RETRY_AFTER_MS) throw err;
+
+          console.warn(`⏳ ${err.message} for ${path}, retrying in ${delayMs}ms (attempt ${attemptNumber + 1}/${maxAttempts})`);
+          await sleep(delayMs, signal);
+        }
+      }
+    } finally {
+      keyState.pending--;
+      keyState.lastUsed = Date.now();
+    }
+  };
+
+  return {
+    getJson: <T>(path: string, options: PosthogRequestOptions = {}) => request(path, options, readJson<T>),
+    getBytes: (path: string, options: PosthogRequestOptions = {}) => request(path, options, readBytes),
+  };
+}
+
+// Recording IDs come from our own URLs. PostHog's are UUIDs, anything else,
+// like a `/` or `..`, could point the API key at a different endpoint.
+const RECORDING_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export function isValidRecordingId(id: string): boolean {
+  return RECORDING_ID_PATTERN.test(id);
+}
+
+export function getRecordingsApiPath(projectId: string): string {
+  return `/api/projects/${encodeURIComponent(projectId)}/session_recordings`;
+}
+
+export function getRecordingApiPath(projectId: string, recordingId: string): string {
+  return `${getRecordingsApiPath(projectId)}/${encodeURIComponent(recordingId)}`;
+}
+
+const ERROR_STATUSES: Record<PosthogErrorKind, number> = {
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  rate_limited: 429,
+  timeout: 504,
+  unreachable: 502,
+  upstream: 502,
+};
+
+// PostHog's own explanation, when it sent one. Nothing else from its error
+// body, or from network errors, is passed on to the browser.
+const MAX_DETAIL_LENGTH = 200;
+
+function getPosthogDetail(error: PosthogError): string | undefined {
+  if (error.status === undefined || typeof error.details !== 'object' || error.details === null) return undefined;
+  const { detail } = error.details as { detail?: unknown };
+  return typeof detail === 'string' ? detail.slice(0, MAX_DETAIL_LENGTH) : undefined;
+}
+
+// `{ error, code, retryAfter?, detail? }` with a status the UI can act on.
+// `context` says what the route was trying to do. The full details are only
+// logged on the server.
+export function posthogErrorResponse(error: PosthogError, context: string): NextResponse {
+  const retryAfter = error.retryAfterMs !== undefined ? Math.ceil(error.retryAfterMs / 1000) : undefined;
+  const message = error.kind === 'rate_limited' && retryAfter !== undefined
+    ? `${error.message}, try again in ${retryAfter}s`
+    : error.message;
+  const detail = getPosthogDetail(error);
+
+  if (error.details !== undefined) {
+    console.warn(`⚠️ ${context}: ${error.message}`, error.details);
+  }
+
+  return NextResponse.json(
+    {
+      error: `${context}: ${message}`,
+      code: error.kind,
+      ...(retryAfter !== undefined && { retryAfter }),
+      ...(detail !== undefined && { detail }),
+    },
+    {
+      status: ERROR_STATUSES[error.kind],
+      ...(retryAfter !== undefined && { headers: { 'Retry-After': String(retryAfter) } }),
+    }
+  );
+}
@@ -0,0 +1,125 @@
+// Check a personal API key against PostHog and say exactly what's wrong with
+// it, rather than letting the feed fail later with a generic error
+
+import { createPosthogClient, getRecordingsApiPath, PosthogError, type PosthogClient } from './posthog-client';
+
+const RECORDINGS_SCOPES = ['*', 'session_recording:read', 'session_recording:write'];
+
+export type CredentialsProblem = 'invalid_key' | 'missing_scope' | 'project_not_found' | 'unreachable';
+
+export interface PosthogProject {
+  id: number;
+  name: string;
+}
+
+export type CredentialsCheck =
+  | { ok: true; projects: PosthogProject[] }
+  | { ok: false; problem: CredentialsProblem; message: string; status: number; projects: PosthogProject[] };
+
+// What PostHog says about the key making the request
+interface CurrentKeyResponse {
+  scopes?: string[];
+  scoped_teams?: number[] | null;
+}
+
+interface ProjectsResponse {
+  results?: { id: number; name: string }[];
+}
+
+function failure(
+  problem: CredentialsProblem,
+  status: number,
+  message: string,
+  projects: PosthogProject[] = []
+): CredentialsCheck {
+  return { ok: false, problem, status, message, projects };
+}
+
+// PostHog answering with an error status is a result here, not a failure: the
+// status is what says what's wrong with the key
+async function getJson<T>(posthog: PosthogClient, path: string): Promise<{ status: number; data: T | null }> {
+  try {
+    return { status: 200, data: await posthog.getJson<T>(path) };
+  } catch (err) {
+    if (err instanceof PosthogError && err.status !== undefined) {
+      return { status: err.status, data: null };
+    }
+    throw err;
+  }
+}
+
+// `projectId` is optional so the login form can check the key and list
+// projects before one has been picked
+export async function checkPosthogCredentials(
+  posthogDomain: string,
+  apiKey: string,
+  projectId?: string
+): Promise<CredentialsCheck> {
+  // Someone is waiting at the login form, a mistyped host should fail fast
+  const posthog = createPosthogClient({ host: posthogDomain, apiKey, timeoutMs: 10_000, maxAttempts: 2 });
+
+  let currentKey: { status: number; data: CurrentKeyResponse | null };
+  try {
+    currentKey = await getJson<CurrentKeyResponse>(posthog, '/api/personal_api_keys/@current');
+  } catch (err) {
+    console.error('Error reaching PostHog:', err);
+    return failure('unreachable', 502, `Couldn't reach PostHog at ${posthogDomain}`);
+  }
+
+  if (currentKey.status === 401) {
+    return failure('invalid_key', 401, 'This API key is not valid. Check it was copied in full.');
+  }
+
+  // Older self-hosted versions don't have the endpoint, the recordings check
+  // below still catches a missing scope there
+  const scopes = currentKey.data?.scopes;
+  if (scopes && !scopes.some((scope) => RECORDINGS_SCOPES.includes(scope))) {
+    return failure(
+      'missing_scope',
+      403,
+      'This API key is missing the session_recording:read scope. Edit the key in PostHog to add it.'
+    );
+  }
+
+  // Listing projects needs its own scope, without it the ID is typed in by hand
+  let projects: PosthogProject[] = [];
+  const projectsResult = await getJson<ProjectsResponse>(posthog, '/api/projects/').catch(() => null);
+  if (projectsResult?.data?.results) {
+    const scopedTeams = currentKey.data?.scoped_teams;
+    projects = projectsResult.data.results
+      .filter((project) => !scopedTeams?.length || scopedTeams.includes(project.id))
+      .map(({ id, name }) => ({ id, name }));
+  }
+
+  if (!projectId) {
+    return { ok: true, projects };
+  }
+
+  const recordings = await getJson<unknown>(
+    posthog,
+    `${getRecordingsApiPath(projectId)}?limit=1`
+  ).catch(() => null);
+
+  if (!recordings) {
+    return failure('unreachable', 502, `Couldn't reach PostHog at ${posthogDomain}`, projects);
+  }
+  if (recordings.status === 401) {
+    return failure('invalid_key', 401, 'This API key is not valid. Check it was copied in full.', projects);
+  }
+  if (recordings.status === 403) {
+    return failure(
+      'missing_scope',
+      403,
+      `This API key can't read recordings in project ${projectId}. Check its scopes and project access.`,
+      projects
+    );
+  }
+  if (recordings.status === 404) {
+    return failure('project_not_found', 404, `Project ${projectId} was not found on ${posthogDomain}.`, projects);
+  }
+  if (recordings.status >= 400) {
+    return failure('unreachable', recordings.status, `PostHog returned an error (${recordings.status}).`, projects);
+  }
+
+  return { ok: true, projects };
+}
@@ -0,0 +1,141 @@
+// PostHog cloud regions plus support for self-hosted instances
+export const POSTHOG_CLOUD_HOSTS = {
+  us: 'https://us.posthog.com',
+  eu: 'https://eu.posthog.com',
+} as const;
+
+export type PosthogRegion = keyof typeof POSTHOG_CLOUD_HOSTS;
+
+export const DEFAULT_POSTHOG_HOST = POSTHOG_CLOUD_HOSTS.us;
+
+// Comma-separated list of self-hosted instances the server may talk to,
+// e.g. POSTHOG_ALLOWED_HOSTS=https://posthog.internal.example.com
+// Without it only the cloud regions work.
+function getAllowedCustomHosts(): string[] {
+  const raw = process.env.POSTHOG_ALLOWED_HOSTS;
+  if (!raw) return [];
+
+  return raw
+    .split(',')
+    .map((host) => normalizePosthogHost(host.trim()))
+    .filter((host): host is string => host !== null);
+}
+
+// For running against a PostHog on your own machine or network: allows plain
+// http and loopback/private addresses, still only for allowlisted hosts
+function allowsInsecureHosts(): boolean {
+  return process.env.POSTHOG_ALLOW_INSECURE_HOSTS === '1';
+}
+
+function parseIpv4(hostname: string): number[] | null {
+  const parts = hostname.split('.');
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) return null;
+  const octets = parts.map(Number);
+  return octets.every((octet) => octet <= 255) ? octets : null;
+}
+
+function isPrivateIpv4([a, b]: number[]): boolean {
+  return (
+    a === 0 || // "this" network
+    a === 10 ||
+    a === 127 || // loopback
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, including cloud metadata endpoints
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224 // multicast and reserved
+  );
+}
+
+// `hostname` as URL gives it back: IPv4 already in dotted decimal, IPv6 in
+// brackets and compressed
+function isPrivateAddress(hostname: string): boolean {
+  const lower = hostname.toLowerCase();
+  if (lower === 'localhost' || lower.endsWith('.localhost')) return true;
+
+  const ipv4 = parseIpv4(lower);
+  if (ipv4) return isPrivateIpv4(ipv4);
+
+  if (!lower.startsWith('[')) return false;
+  const ipv6 = lower.slice(1, -1);
+  if (ipv6 === '::' || ipv6 === '::1') return true;
+
+  // IPv4-mapped, e.g. [::ffff:7f00:1] for 127.0.0.1
+  const mapped = ipv6.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mapped) {
+    const high = parseInt(mapped[1], 16);
+    const low = parseInt(mapped[2], 16);
+    return isPrivateIpv4([high >> 8, high & 0xff, low >> 8, low & 0xff]);
+  }
+
+  const firstGroup = parseInt(ipv6.split(':')[0] || '0', 16);
+  return (
+    (firstGroup & 0xfe00) === 0xfc00 || // unique local
+    (firstGroup & 0xffc0) === 0xfe80 || // link-local
+    (firstGroup & 0xff00) === 0xff00 // multicast
+  );
+}
+
+// Reduce a user-entered host to its origin (scheme + hostname + port).
+// Returns null if it isn't a usable http(s) URL.
+export function normalizePosthogHost(host: string): string | null {
+  if (!host) return null;
+
+  try {
+    const url = new URL(host.includes('://') ? host : `https://${host}`);
+
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+    if (url.username || url.password) return null;
+
+    return url.origin;
+  } catch {
+    return null;
+  }
+}
+
+export function getRegionForHost(host: string): PosthogRegion | 'custom' {
+  const origin = normalizePosthogHost(host);
+  const match = (Object.keys(POSTHOG_CLOUD_HOSTS) as PosthogRegion[]).find(
+    (region) => POSTHOG_CLOUD_HOSTS[region] === origin
+  );
+  return match ?? 'custom';
+}
+
+// Server-side policy for which hosts we're willing to proxy requests to, with
+// the caller's API key. Cloud regions are always allowed. Anything else must be
+// listed in POSTHOG_ALLOWED_HOSTS, be https, and not point at a loopback,
+// private or link-local address, unless POSTHOG_ALLOW_INSECURE_HOSTS=1.
+export function resolvePosthogHost(host: unknown): string | null {
+  if (host === undefined || host === null || host === '') {
+    return DEFAULT_POSTHOG_HOST;
+  }
+
+  if (typeof host !== 'string') return null;
+
+  const origin = normalizePosthogHost(host);
+  if (!origin) return null;
+
+  if (Object.values(POSTHOG_CLOUD_HOSTS).includes(origin as typeof DEFAULT_POSTHOG_HOST)) {
+    return origin;
+  }
+
+  if (!getAllowedCustomHosts().includes(origin)) {
+    return null;
+  }
+
+  const url = new URL(origin);
+  if (!allowsInsecureHosts() && (url.protocol !== 'https:' || isPrivateAddress(url.hostname))) {
+    return null;
+  }
+
+  return origin;
+}
+
+// Deep links into the PostHog UI
+export function getProjectUrl(host: string, projectId: string): string {
+  return `${normalizePosthogHost(host) ?? DEFAULT_POSTHOG_HOST}/project/${projectId}`;
+}
+
+export function getReplayUrl(host: string, projectId: string, recordingId: string): string {
+  return `${getProjectUrl(host, projectId)}/replay/${encodeURIComponent(recordingId)}`;
+}
@@ -0,0 +1,139 @@
+import type { RRWebEvent } from '@/types/posthog';
+
+// Which recordings the feed should have snapshots for, and which to let go.
+// The current recording comes first and the next one second. How far ahead
+// to look depends on how fast downloads have been, and recordings away from
+// the current one are dropped once the loaded events go over a memory budget.
+
+export interface PrefetchConfig {
+  memoryBudgetBytes: number;
+  minDepth: number; // recordings ahead of the current one, however slow downloads are
+  maxDepth: number;
+  keepBehind: number; // recordings just behind the current one, kept for scrolling back
+}
+
+export const DEFAULT_PREFETCH_CONFIG: PrefetchConfig = {
+  memoryBudgetBytes: 256 * 1024 * 1024,
+  minDepth: 1,
+  maxDepth: 6,
+  keepBehind: 1,
+};
+
+// Until a download has been timed
+const INITIAL_DEPTH = 3;
+// Look as far ahead as can download in this long, about how long a replay
+// holds the user's attention
+const LOOKAHEAD_SECONDS = 20;
+// Downloads to average the speed over
+const SPEED_SAMPLES = 5;
+// Non-snapshot events sampled when estimating size
+const SIZE_SAMPLES = 40;
+
+// Rough size of decoded events, as their JSON length. Full snapshots hold
+// most of it so those are measured whole, the rest is sampled.
+export function estimateEventsSize(events: RRWebEvent[]): number {
+  let size = 0;
+  let otherCount = 0;
+  for (const event of events) {
+    if (event.type === 2) {
+      size += JSON.stringify(event).length;
+    } else {
+      otherCount++;
+    }
+  }
+  if (otherCount === 0) return size;
+
+  const step = Math.max(1, Math.floor(events.length / SIZE_SAMPLES));
+  let sampled = 0;
+  let sampledSize = 0;
+  for (let i = 0; i < events.length; i += step) {
+    if (events[i].type === 2) continue;
+    sampled++;
+    sampledSize += JSON.stringify(events[i]).length;
+  }
+  return size + (sampled > 0 ? Math.round((sampledSize / sampled) * otherCount) : 0);
+}
+
+export interface DownloadStats {
+  record(bytes: number, durationMs: number): void;
+  bytesPerSecond(): number | null;
+  averageSize(): number | null;
+}
+
+// Over the last few downloads. Downloads running side by side share the
+// connection, so this reads low while prefetching, which errs on the side
+// of not looking too far ahead.
+export function createDownloadStats(samples = SPEED_SAMPLES): DownloadStats {
+  const recent: { bytes: number; durationMs: number }[] = [];
+
+  return {
+    record: (bytes, durationMs) => {
+      recent.push({ bytes, durationMs: Math.max(durationMs, 1) });
+      if (recent.length > samples) recent.shift();
+    },
+    bytesPerSecond: () => {
+      if (recent.length === 0) return null;
+      const bytes = recent.reduce((sum, sample) => sum + sample.bytes, 0);
+      const durationMs = recent.reduce((sum, sample) => sum + sample.durationMs, 0);
+      return (bytes / durationMs) * 1000;
+    },
+    averageSize: () =>
+      recent.length === 0 ? null : recent.reduce((sum, sample) => sum + sample.bytes, 0) / recent.length,
+  };
+}
+
+// How many recordings after the current one to fetch
+export function getPrefetchDepth(config: PrefetchConfig, stats: DownloadStats): number {
+  const clamp = (depth: number) => Math.min(config.maxDepth, Math.max(config.minDepth, depth));
+  const speed = stats.bytesPerSecond();
+  const averageSize = stats.averageSize();
+  if (!speed || !averageSize) return clamp(INITIAL_DEPTH);
+
+  const downloadable = Math.floor((speed * LOOKAHEAD_SECONDS) / averageSize);
+  // Room left in the budget once the current and kept ones are loaded
+  const affordable = Math.floor(config.memoryBudgetBytes / averageSize) - 1 - config.keepBehind;
+  return clamp(Math.min(downloadable, affordable));
+}
+
+export interface PrefetchPlan {
+  wanted: string[]; // to load, most urgent first
+  keep: Set<string>; // never cancelled or evicted
+}
+
+export function planPrefetch(ids: string[], currentIndex: number, depth: number, config: PrefetchConfig): PrefetchPlan {
+  const wanted = ids.slice(currentIndex, currentIndex + depth + 1);
+  const behind = ids.slice(Math.max(0, currentIndex - config.keepBehind), currentIndex);
+  return { wanted, keep: new Set([...behind, ...wanted]) };
+}
+
+// Loaded recordings to drop to get back under the budget, farthest from the
+// current one first. Recordings no longer in the list count as farthest.
+// Anything in `keep` stays even if that leaves it over budget.
+export function chooseEvictions(
+  sizes: Map<string, number>,
+  ids: string[],
+  currentIndex: number,
+  keep: Set<string>,
+  memoryBudgetBytes: number
+): string[] {
+  let total = 0;
+  for (const size of sizes.values()) total += size;
+  if (total <= memoryBudgetBytes) return [];
+
+  const positions = new Map(ids.map((id, index) => [id, index]));
+  const distance = (id: string) => {
+    const position = positions.get(id);
+    return position === undefined ? Infinity : Math.abs(position - currentIndex);
+  };
+
+  const evicted: string[] = [];
+  const candidates = Array.from(sizes.keys())
+    .filter((id) => !keep.has(id))
+    .sort((a, b) => distance(b) - distance(a));
+  for (const id of candidates) {
+    if (total <= memoryBudgetBytes) break;
+    evicted.push(id);
+    total -= sizes.get(id) ?? 0;
+  }
+  return evicted;
+}
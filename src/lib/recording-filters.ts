@@ -0,0 +1,222 @@
+import type { SessionRecording } from '@/types/posthog';
+
+// Filters the feed can ask /api/replays to apply. Anything left undefined
+// means "no constraint".
+export interface RecordingFilters {
+  minDuration?: number; // seconds
+  maxDuration?: number; // seconds
+  minClicks?: number;
+  minKeypresses?: number;
+  minInteractions?: number; // clicks + keypresses
+  startUrlContains?: string;
+  startUrlRegex?: string; // matched in the browser, see createStartUrlMatcher
+  personDistinctId?: string;
+  personProperty?: {
+    key: string;
+    value: string;
+  };
+  dateFrom?: string; // ISO date, inclusive
+  dateTo?: string; // ISO date, inclusive
+  includeOngoing?: boolean;
+}
+
+// The quality bar the feed has always used: 30s+, some interaction, finished
+export const DEFAULT_RECORDING_FILTERS: RecordingFilters = {
+  minDuration: 30,
+  minInteractions: 1,
+  includeOngoing: false,
+};
+
+export const DEFAULT_RECORDINGS_LIMIT = 50;
+export const MAX_RECORDINGS_LIMIT = 200;
+const MAX_REGEX_LENGTH = 200;
+
+type ParseResult = { filters: RecordingFilters } | { error: string };
+
+function parseNumber(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const num = Number(value);
+  if (!Number.isFinite(num) || num < 0) {
+    throw new Error(`${name} must be a non-negative number`);
+  }
+  return num;
+}
+
+function parseString(value: unknown, name: string): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') {
+    throw new Error(`${name} must be a string`);
+  }
+  return value.trim() || undefined;
+}
+
+function parseDate(value: unknown, name: string): string | undefined {
+  const str = parseString(value, name);
+  if (str === undefined) return undefined;
+  if (Number.isNaN(Date.parse(str))) {
+    throw new Error(`${name} must be a valid date`);
+  }
+  return str;
+}
+
+// Validate filters coming from the request body. A missing filter object
+// falls back to the default quality filter.
+export function parseRecordingFilters(input: unknown): ParseResult {
+  if (input === undefined || input === null) {
+    return { filters: DEFAULT_RECORDING_FILTERS };
+  }
+
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'filters must be an object' };
+  }
+
+  const raw = input as Record<string, unknown>;
+
+  try {
+    const filters: RecordingFilters = {
+      minDuration: parseNumber(raw.minDuration, 'minDuration'),
+      maxDuration: parseNumber(raw.maxDuration, 'maxDuration'),
+      minClicks: parseNumber(raw.minClicks, 'minClicks'),
+      minKeypresses: parseNumber(raw.minKeypresses, 'minKeypresses'),
+      minInteractions: parseNumber(raw.minInteractions, 'minInteractions'),
+      startUrlContains: parseString(raw.startUrlContains, 'startUrlContains'),
+      startUrlRegex: parseString(raw.startUrlRegex, 'startUrlRegex'),
+      personDistinctId: parseString(raw.personDistinctId, 'personDistinctId'),
+      dateFrom: parseDate(raw.dateFrom, 'dateFrom'),
+      dateTo: parseDate(raw.dateTo, 'dateTo'),
+      includeOngoing: raw.includeOngoing === true,
+    };
+
+    if (raw.personProperty !== undefined && raw.personProperty !== null) {
+      const prop = raw.personProperty as Record<string, unknown>;
+      const key = parseString(prop.key, 'personProperty.key');
+      const value = parseString(prop.value, 'personProperty.value');
+      if (key && value !== undefined) {
+        filters.personProperty = { key, value };
+      }
+    }
+
+    if (filters.startUrlRegex) {
+      if (filters.startUrlRegex.length > MAX_REGEX_LENGTH) {
+        throw new Error(`startUrlRegex must be at most ${MAX_REGEX_LENGTH} characters`);
+      }
+      try {
+        new RegExp(filters.startUrlRegex);
+      } catch {
+        throw new Error('startUrlRegex is not a valid regular expression');
+      }
+    }
+
+    if (
+      filters.minDuration !== undefined &&
+      filters.maxDuration !== undefined &&
+      filters.minDuration > filters.maxDuration
+    ) {
+      throw new Error('minDuration must not be greater than maxDuration');
+    }
+
+    return { filters };
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : 'Invalid filters' };
+  }
+}
+
+export function parseRecordingsLimit(input: unknown): number {
+  const limit = Number(input);
+  if (!Number.isInteger(limit) || limit <= 0) return DEFAULT_RECORDINGS_LIMIT;
+  return Math.min(limit, MAX_RECORDINGS_LIMIT);
+}
+
+// Translate the filters PostHog can evaluate itself into list query params.
+// Everything is re-checked locally in matchesRecordingFilters anyway.
+export function buildRecordingsQuery(filters: RecordingFilters, limit: number): URLSearchParams {
+  const params = new URLSearchParams({ limit: String(limit) });
+
+  if (filters.dateFrom) params.set('date_from', filters.dateFrom);
+  if (filters.dateTo) params.set('date_to', filters.dateTo);
+
+  const havingPredicates: Record<string, unknown>[] = [];
+  if (filters.minDuration !== undefined) {
+    havingPredicates.push({ type: 'recording', key: 'duration', value: filters.minDuration, operator: 'gte' });
+  }
+  if (filters.maxDuration !== undefined) {
+    havingPredicates.push({ type: 'recording', key: 'duration', value: filters.maxDuration, operator: 'lte' });
+  }
+  if (havingPredicates.length > 0) {
+    params.set('having_predicates', JSON.stringify(havingPredicates));
+  }
+
+  if (filters.personDistinctId) {
+    params.set('distinct_ids', JSON.stringify([filters.personDistinctId]));
+  }
+
+  if (filters.personProperty) {
+    params.set('properties', JSON.stringify([
+      {
+        type: 'person',
+        key: filters.personProperty.key,
+        value: filters.personProperty.value,
+        operator: 'exact',
+      },
+    ]));
+  }
+
+  return params;
+}
+
+function endOfDay(date: string): number {
+  const time = Date.parse(date);
+  // Bare dates ("2024-05-01") mean the whole day
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) ? time + 24 * 60 * 60 * 1000 - 1 : time;
+}
+
+export function matchesRecordingFilters(recording: SessionRecording, filters: RecordingFilters): boolean {
+  const { recording_duration, click_count, keypress_count } = recording;
+
+  if (filters.minDuration !== undefined && recording_duration < filters.minDuration) return false;
+  if (filters.maxDuration !== undefined && recording_duration > filters.maxDuration) return false;
+  if (filters.minClicks !== undefined && click_count < filters.minClicks) return false;
+  if (filters.minKeypresses !== undefined && keypress_count < filters.minKeypresses) return false;
+  if (filters.minInteractions !== undefined && click_count + keypress_count < filters.minInteractions) {
+    return false;
+  }
+
+  if (!filters.includeOngoing && recording.ongoing !== false) return false;
+
+  const startUrl = recording.start_url || '';
+  if (filters.startUrlContains && !startUrl.toLowerCase().includes(filters.startUrlContains.toLowerCase())) {
+    return false;
+  }
+
+  if (filters.personDistinctId && recording.distinct_id !== filters.personDistinctId) return false;
+
+  if (filters.personProperty) {
+    const value = recording.person?.properties?.[filters.personProperty.key];
+    if (value === undefined || value === null || String(value) !== filters.personProperty.value) {
+      return false;
+    }
+  }
+
+  const startTime = Date.parse(recording.start_time);
+  if (filters.dateFrom && startTime < Date.parse(filters.dateFrom)) return false;
+  if (filters.dateTo && startTime > endOfDay(filters.dateTo)) return false;
+
+  return true;
+}
+
+// The server never runs user-supplied regexes, a pattern with catastrophic
+// backtracking would stall it for everyone. The feed applies this to each page
+// it gets back instead.
+export function createStartUrlMatcher(filters: RecordingFilters): (recording: SessionRecording) => boolean {
+  if (!filters.startUrlRegex) return () => true;
+  const regex = new RegExp(filters.startUrlRegex);
+  return (recording) => regex.test(recording.start_url || '');
+}
+
+// Number of constraints set, for the filter button badge
+export function countActiveFilters(filters: RecordingFilters): number {
+  return Object.entries(filters).filter(([key, value]) => {
+    if (key === 'includeOngoing') return value === true;
+    return value !== undefined && value !== '';
+  }).length;
+}
@@ -0,0 +1,173 @@
+import type { SessionRecording } from '@/types/posthog';
+
+// How the feed orders recordings. "for_you" is the weighted interest score,
+// the rest are simple sorts.
+export type RankingStrategy = 'for_you' | 'most_active' | 'newest' | 'longest' | 'shuffle';
+
+export const DEFAULT_RANKING_STRATEGY: RankingStrategy = 'for_you';
+
+// Friction found while analysing a recording's snapshots. Only known for
+// recordings that have been loaded at least once.
+export interface RecordingFriction {
+  rageClicks: number;
+  errors: number;
+}
+
+export interface RankingContext {
+  now: number;
+  isSeen: (recording: SessionRecording) => boolean;
+  friction: ReadonlyMap<string, RecordingFriction>;
+}
+
+// One input to the interest score. `score` returns 0..1, or null when the
+// signal has nothing to say about a recording (its weight is then left out).
+export interface ScoringSignal {
+  id: string;
+  weight: number;
+  score: (recording: SessionRecording, context: RankingContext) => number | null;
+}
+
+// Durations in this range (seconds) score full marks, long enough to show
+// something and short enough to watch
+const SWEET_SPOT_MIN_SECONDS = 60;
+const SWEET_SPOT_MAX_SECONDS = 600;
+// Recency score halves every this many days
+const RECENCY_HALF_LIFE_DAYS = 3;
+// Interactions per second at which the activity score reaches 0.5
+const HALF_ACTIVITY_DENSITY = 0.3;
+
+export function getInteractionDensity(recording: SessionRecording): number {
+  const interactions = (recording.click_count || 0) + (recording.keypress_count || 0);
+  return interactions / Math.max(recording.recording_duration || 0, 1);
+}
+
+export const activitySignal: ScoringSignal = {
+  id: 'activity',
+  weight: 3,
+  score: (recording) => {
+    const density = getInteractionDensity(recording);
+    return density / (density + HALF_ACTIVITY_DENSITY);
+  },
+};
+
+export const durationSignal: ScoringSignal = {
+  id: 'duration',
+  weight: 1,
+  score: (recording) => {
+    const duration = recording.recording_duration || 0;
+    if (duration < SWEET_SPOT_MIN_SECONDS) return duration / SWEET_SPOT_MIN_SECONDS;
+    if (duration > SWEET_SPOT_MAX_SECONDS) return SWEET_SPOT_MAX_SECONDS / duration;
+    return 1;
+  },
+};
+
+export const recencySignal: ScoringSignal = {
+  id: 'recency',
+  weight: 1.5,
+  score: (recording, { now }) => {
+    const started = Date.parse(recording.start_time);
+    if (Number.isNaN(started)) return null;
+    const ageDays = Math.max(now - started, 0) / (24 * 60 * 60 * 1000);
+    return Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+  },
+};
+
+export const unseenSignal: ScoringSignal = {
+  id: 'unseen',
+  weight: 2,
+  score: (recording, { isSeen }) => (isSeen(recording) ? 0 : 1),
+};
+
+export const frictionSignal: ScoringSignal = {
+  id: 'friction',
+  weight: 2,
+  score: (recording, { friction }) => {
+    const found = friction.get(recording.id);
+    if (!found) return null;
+    return Math.min((found.rageClicks * 2 + found.errors) / 5, 1);
+  },
+};
+
+export const INTEREST_SIGNALS: ScoringSignal[] = [
+  activitySignal,
+  durationSignal,
+  recencySignal,
+  unseenSignal,
+  frictionSignal,
+];
+
+// Weighted average of the signals that apply, 0..1
+export function scoreRecording(
+  recording: SessionRecording,
+  context: RankingContext,
+  signals: ScoringSignal[] = INTEREST_SIGNALS
+): number {
+  let total = 0;
+  let weights = 0;
+
+  for (const signal of signals) {
+    const score = signal.score(recording, context);
+    if (score === null) continue;
+    total += signal.weight * score;
+    weights += signal.weight;
+  }
+
+  return weights > 0 ? total / weights : 0;
+}
+
+function sortByDescending(
+  recordings: SessionRecording[],
+  getValue: (recording: SessionRecording) => number
+): SessionRecording[] {
+  const values = new Map(recordings.map((recording) => [recording.id, getValue(recording)]));
+  return [...recordings].sort((a, b) => values.get(b.id)! - values.get(a.id)!);
+}
+
+function shuffle(recordings: SessionRecording[]): SessionRecording[] {
+  const result = [...recordings];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export const RANKING_STRATEGIES: Record<
+  RankingStrategy,
+  { label: string; rank: (recordings: SessionRecording[], context: RankingContext) => SessionRecording[] }
+> = {
+  for_you: {
+    label: 'For you',
+    rank: (recordings, context) => sortByDescending(recordings, (recording) => scoreRecording(recording, context)),
+  },
+  most_active: {
+    label: 'Most active',
+    rank: (recordings) => sortByDescending(recordings, getInteractionDensity),
+  },
+  newest: {
+    label: 'Newest',
+    rank: (recordings) => sortByDescending(recordings, (recording) => Date.parse(recording.start_time) || 0),
+  },
+  longest: {
+    label: 'Longest',
+    rank: (recordings) => sortByDescending(recordings, (recording) => recording.recording_duration || 0),
+  },
+  shuffle: {
+    label: 'Random shuffle',
+    rank: shuffle,
+  },
+};
+
+export function isRankingStrategy(value: unknown): value is RankingStrategy {
+  return typeof value === 'string' && Object.keys(RANKING_STRATEGIES).includes(value);
+}
+
+export function rankRecordings(
+  recordings: SessionRecording[],
+  strategy: RankingStrategy,
+  context: RankingContext
+): SessionRecording[] {
+  // Stored settings may name a strategy that no longer exists
+  const { rank } = RANKING_STRATEGIES[isRankingStrategy(strategy) ? strategy : DEFAULT_RANKING_STRATEGY];
+  return rank(recordings, context);
+}
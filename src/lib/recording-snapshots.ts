@@ -0,0 +1,169 @@
+import { getRecordingApiPath, PosthogError, type PosthogClient } from '@/lib/posthog-client';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { decodeSnapshotBody, mergeSnapshotWarnings } from '@/lib/snapshot-decoding';
+import { getSnapshotCacheKey, readCachedSnapshots, writeCachedSnapshots } from '@/lib/snapshot-cache';
+import { sortByTimestamp } from '@/lib/snapshot-stream';
+import type { RRWebEvent, SessionRecording, SnapshotWarning } from '@/types/posthog';
+
+// Loading a recording's snapshots from PostHog on the server: list its blobs,
+// fetch them in batches, decode. The snapshots route streams these to the
+// browser, clip rendering reads them directly.
+
+// Blob keys per upstream request, and how many of those requests run at once
+// for one recording. The PostHog client also caps requests across recordings.
+const BATCH_SIZE = 20;
+export const BATCH_CONCURRENCY = 4;
+
+// Add interface for blob source
+interface BlobSource {
+  source: string;
+  blob_key?: number;
+}
+
+export interface BatchContext {
+  posthog: PosthogClient;
+  projectId: string;
+  recordingId: string;
+  signal: AbortSignal;
+}
+
+// A range of stored blobs, or the recent events not yet written to blobs
+export type SnapshotBatch =
+  | { source: 'blob_v2'; keys: number[] }
+  | { source: 'realtime' };
+
+export type BatchResult =
+  | { ok: true; events: RRWebEvent[]; warnings: SnapshotWarning[] }
+  | { ok: false; status?: number; message: string };
+
+export interface LoadedSnapshots {
+  events: RRWebEvent[];
+  failedBatches: number;
+  warnings: SnapshotWarning[];
+}
+
+function describeBatch(batch: SnapshotBatch): string {
+  return batch.source === 'blob_v2' ? `blobs ${batch.keys[0]}-${batch.keys[batch.keys.length - 1]}` : 'realtime snapshots';
+}
+
+// Look up the recording first. This checks the key can actually see it before
+// anything is served from cache, and says whether it's finished. Only finished
+// recordings get a cache key, ongoing ones still grow.
+export async function getRecordingCacheKey(context: BatchContext, host: string): Promise<string | null> {
+  const { posthog, projectId, recordingId, signal } = context;
+  const recording = await posthog.getJson<SessionRecording>(
+    getRecordingApiPath(projectId, recordingId),
+    { signal }
+  );
+  return recording.ongoing === false ? getSnapshotCacheKey(host, projectId, recordingId) : null;
+}
+
+export async function listSnapshotBatches({ posthog, projectId, recordingId, signal }: BatchContext): Promise<SnapshotBatch[]> {
+  console.log('Fetching blob keys list...');
+  const sourcesData = await posthog.getJson<{ sources?: BlobSource[] }>(
+    `${getRecordingApiPath(projectId, recordingId)}/snapshots?blob_v2=true`,
+    { signal }
+  );
+  const sources = sourcesData.sources || [];
+
+  const blobKeys = sources
+    .filter((source) => source.source === 'blob_v2' && source.blob_key !== undefined)
+    .map((source) => source.blob_key as number)
+    .sort((a: number, b: number) => a - b);
+
+  console.log(`Found ${blobKeys.length} blobs to fetch`);
+
+  const batches: SnapshotBatch[] = [];
+  for (let i = 0; i < blobKeys.length; i += BATCH_SIZE) {
+    batches.push({ source: 'blob_v2', keys: blobKeys.slice(i, i + BATCH_SIZE) });
+  }
+
+  // An ongoing recording's latest events haven't been written to a blob yet
+  if (sources.some((source) => source.source === 'realtime')) {
+    batches.push({ source: 'realtime' });
+  }
+
+  console.log(`Created ${batches.length} batches (max ${BATCH_SIZE} blobs each)`);
+  return batches;
+}
+
+// Fetch one batch and decode its body into events
+export async function fetchSnapshotBatch(
+  { posthog, projectId, recordingId, signal }: BatchContext,
+  batch: SnapshotBatch
+): Promise<BatchResult> {
+  const query = batch.source === 'blob_v2'
+    ? `source=blob_v2&start_blob_key=${batch.keys[0]}&end_blob_key=${batch.keys[batch.keys.length - 1]}`
+    : 'source=realtime';
+
+  try {
+    // Bytes rather than text, the body may still be gzipped
+    const body = await posthog.getBytes(
+      `${getRecordingApiPath(projectId, recordingId)}/snapshots?${query}`,
+      { signal }
+    );
+
+    const { events, warnings } = decodeSnapshotBody(body);
+    for (const warning of warnings) {
+      console.warn(`⚠️ ${describeBatch(batch)} of ${recordingId}: ${warning.message} (${warning.count}x)`);
+    }
+    return { ok: true, events, warnings };
+  } catch (e) {
+    return {
+      ok: false,
+      status: e instanceof PosthogError ? e.status : undefined,
+      message: `Failed to fetch ${describeBatch(batch)}: ${e instanceof Error ? e.message : String(e)}`,
+    };
+  }
+}
+
+// Every batch, a few at a time, merged into one timeline
+export async function fetchAllSnapshotBatches(context: BatchContext, batches: SnapshotBatch[]): Promise<LoadedSnapshots> {
+  const results = await Promise.all(
+    mapWithConcurrency(batches, BATCH_CONCURRENCY, (batch) => fetchSnapshotBatch(context, batch))
+  );
+
+  const events: RRWebEvent[] = [];
+  const batchWarnings: SnapshotWarning[][] = [];
+  let failedBatches = 0;
+  results.forEach((result, i) => {
+    if (result.ok) {
+      for (const event of result.events) {
+        events.push(event);
+      }
+      batchWarnings.push(result.warnings);
+    } else {
+      failedBatches++;
+      console.error(`Failed to fetch batch ${i + 1}, status: ${result.status}`);
+    }
+  });
+
+  // Sort by timestamp for proper playback
+  sortByTimestamp(events);
+
+  console.log(`✅ Collected ${events.length} events from ${batches.length} batch(es)`);
+  return { events, failedBatches, warnings: mergeSnapshotWarnings(batchWarnings) };
+}
+
+// Only cache complete downloads, a missing batch would stick around forever
+export function cacheCompleteSnapshots(cacheKey: string | null, events: RRWebEvent[], failedBatches: number) {
+  if (cacheKey && failedBatches === 0 && events.length > 0) {
+    void writeCachedSnapshots(cacheKey, sortByTimestamp(events));
+  }
+}
+
+// The whole recording from the disk cache or PostHog, with the same access
+// check as the snapshots route
+export async function loadRecordingSnapshots(context: BatchContext, host: string): Promise<LoadedSnapshots> {
+  const cacheKey = await getRecordingCacheKey(context, host);
+  if (cacheKey) {
+    const cached = await readCachedSnapshots(cacheKey);
+    if (cached) {
+      return { events: cached, failedBatches: 0, warnings: [] };
+    }
+  }
+
+  const loaded = await fetchAllSnapshotBatches(context, await listSnapshotBatches(context));
+  cacheCompleteSnapshots(cacheKey, loaded.events, loaded.failedBatches);
+  return loaded;
+}
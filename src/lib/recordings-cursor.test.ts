@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { cursorFromNextUrl, decodeRecordingsCursor, encodeRecordingsCursor } from './recordings-cursor';
+
+describe('recordings cursor', () => {
+  it('round-trips an offset', () => {
+    expect(decodeRecordingsCursor(encodeRecordingsCursor(0))).toBe(0);
+    expect(decodeRecordingsCursor(encodeRecordingsCursor(150))).toBe(150);
+  });
+
+  it('turns away cursors that were tampered with', () => {
+    const encode = (payload: unknown) => Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    expect(decodeRecordingsCursor(encode({ offset: -50 }))).toBeNull();
+    expect(decodeRecordingsCursor(encode({ offset: 1.5 }))).toBeNull();
+    expect(decodeRecordingsCursor(encode({ offset: '50' }))).toBeNull();
+    expect(decodeRecordingsCursor(encode({ next: 'https://internal.example/api' }))).toBeNull();
+    expect(decodeRecordingsCursor(encode(null))).toBeNull();
+    expect(decodeRecordingsCursor('not base64 json')).toBeNull();
+    expect(decodeRecordingsCursor('')).toBeNull();
+    expect(decodeRecordingsCursor(42)).toBeNull();
+    expect(decodeRecordingsCursor(encode({ offset: 1, padding: 'x'.repeat(200) }))).toBeNull();
+  });
+
+  it("keeps only the offset from PostHog's next URL", () => {
+    const cursor = cursorFromNextUrl('https://us.posthog.com/api/projects/1/session_recordings?limit=50&offset=100');
+    expect(decodeRecordingsCursor(cursor)).toBe(100);
+    // Where `next` pointed doesn't survive
+    expect(cursor).not.toContain('posthog');
+  });
+
+  it('has no cursor without a usable next URL', () => {
+    expect(cursorFromNextUrl(null)).toBeNull();
+    expect(cursorFromNextUrl('not a url')).toBeNull();
+    expect(cursorFromNextUrl('https://us.posthog.com/api/projects/1/session_recordings?limit=50')).toBeNull();
+    expect(cursorFromNextUrl('https://us.posthog.com/api/projects/1/session_recordings?offset=-5')).toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+// Opaque pagination cursors for /api/replays.
+//
+// PostHog's `next` is a full upstream URL. Rather than hand that to the browser
+// (and later fetch whatever URL comes back), we only keep the offset from it and
+// rebuild the upstream request ourselves from the validated host, project and
+// filters.
+
+interface CursorPayload {
+  offset: number;
+}
+
+export function encodeRecordingsCursor(offset: number): string {
+  const payload: CursorPayload = { offset };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+export function decodeRecordingsCursor(cursor: unknown): number | null {
+  if (typeof cursor !== 'string' || cursor.length === 0 || cursor.length > 200) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as CursorPayload;
+    if (!Number.isInteger(payload.offset) || payload.offset < 0) return null;
+    return payload.offset;
+  } catch {
+    return null;
+  }
+}
+
+// Pull the offset out of PostHog's `next` URL and turn it into a cursor
+export function cursorFromNextUrl(next: string | null): string | null {
+  if (!next) return null;
+
+  try {
+    const offset = Number(new URL(next).searchParams.get('offset'));
+    if (!Number.isInteger(offset) || offset <= 0) return null;
+    return encodeRecordingsCursor(offset);
+  } catch {
+    return null;
+  }
+}
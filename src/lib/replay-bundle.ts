@@ -0,0 +1,100 @@
+import pako from 'pako';
+import { downloadBlob } from './download';
+import { hasPlayableSnapshot, sortByTimestamp } from './snapshot-stream';
+import type { RRWebEvent, SessionRecording } from '@/types/posthog';
+
+// Self-contained replay bundles: recording metadata plus every rrweb event,
+// gzipped JSON. They play on the import page with no PostHog access at all.
+
+export const BUNDLE_FORMAT = 'tikhog-replay-bundle';
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = '.json.gz';
+
+export interface BundledRecording {
+  recording: SessionRecording;
+  events: RRWebEvent[];
+}
+
+export interface ReplayBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  // Where it came from, only for display
+  source?: { host: string; projectId: string };
+  recordings: BundledRecording[];
+}
+
+export function createReplayBundle(
+  recordings: BundledRecording[],
+  source?: { host: string; projectId: string }
+): ReplayBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    source,
+    recordings,
+  };
+}
+
+export function encodeReplayBundle(bundle: ReplayBundle): Uint8Array {
+  return pako.gzip(JSON.stringify(bundle));
+}
+
+function isBundledRecording(value: unknown): value is BundledRecording {
+  const entry = value as BundledRecording | null;
+  return (
+    typeof entry?.recording?.id === 'string' &&
+    Array.isArray(entry.events) &&
+    entry.events.every((event) => typeof event?.type === 'number' && typeof event.timestamp === 'number')
+  );
+}
+
+// Takes the file as is. Plain JSON is accepted too, in case the browser or
+// the user already unpacked it.
+export function decodeReplayBundle(bytes: Uint8Array): ReplayBundle {
+  // gzip magic number
+  const isGzipped = bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+  let data: unknown;
+  try {
+    const text = isGzipped ? pako.ungzip(bytes, { to: 'string' }) : new TextDecoder().decode(bytes);
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not a replay bundle (it could not be read as gzipped JSON).');
+  }
+
+  const bundle = data as ReplayBundle | null;
+  if (bundle?.format !== BUNDLE_FORMAT || !Array.isArray(bundle.recordings)) {
+    throw new Error('This file is not a replay bundle.');
+  }
+  if (typeof bundle.version !== 'number' || bundle.version > BUNDLE_VERSION) {
+    throw new Error(`This bundle was made by a newer version (v${bundle.version}), update TikHog to open it.`);
+  }
+  if (!bundle.recordings.every(isBundledRecording)) {
+    throw new Error('This bundle is damaged: some recordings are missing their events.');
+  }
+
+  // Bundles exported before streamed batches were sorted may be out of order
+  for (const { events } of bundle.recordings) {
+    sortByTimestamp(events);
+  }
+  const playable = bundle.recordings.filter(({ events }) => hasPlayableSnapshot(events));
+  if (playable.length === 0) {
+    throw new Error('None of the recordings in this bundle can be played.');
+  }
+  return { ...bundle, recordings: playable };
+}
+
+export function getBundleFilename(recordings: SessionRecording[]): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return recordings.length === 1
+    ? `tikhog-replay-${recordings[0].id}${BUNDLE_EXTENSION}`
+    : `tikhog-replays-${recordings.length}-${date}${BUNDLE_EXTENSION}`;
+}
+
+export function downloadReplayBundle(bundle: ReplayBundle) {
+  const bytes = encodeReplayBundle(bundle);
+  const blob = new Blob([bytes as BlobPart], { type: 'application/gzip' });
+  downloadBlob(blob, getBundleFilename(bundle.recordings.map(({ recording }) => recording)));
+}
@@ -0,0 +1,221 @@
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import puppeteer, { type Browser } from 'puppeteer-core';
+import type { ClipFormat, RRWebEvent } from '@/types/posthog';
+
+// Server-side clip rendering. The events are replayed in headless Chrome one
+// frame at a time (seek, screenshot), and the frames are piped into ffmpeg.
+// Both are local installs: set CHROME_PATH and FFMPEG_PATH if they aren't in
+// the usual places.
+//
+// The recorded DOM is untrusted, so the page can't load anything from the
+// network: every image, stylesheet or font URL in a recording would otherwise
+// be a request from the server. Chrome keeps its sandbox unless
+// CHROME_NO_SANDBOX=1, which containers running Chrome as root need.
+
+export const MAX_CLIP_SECONDS = 60;
+// Widest frame we encode, recordings from big screens are scaled down
+const MAX_OUTPUT_WIDTH = 1280;
+// Largest page Chrome renders and screenshots for every frame. The player
+// scales the recording to fit, so a huge recorded screen only costs detail.
+const MAX_VIEWPORT = { width: 1920, height: 1080 };
+const MIN_VIEWPORT = { width: 320, height: 240 };
+
+export const CLIP_FORMATS: Record<ClipFormat, { extension: string; contentType: string; fps: number }> = {
+  gif: { extension: 'gif', contentType: 'image/gif', fps: 10 },
+  webm: { extension: 'webm', contentType: 'video/webm', fps: 15 },
+  mp4: { extension: 'mp4', contentType: 'video/mp4', fps: 15 },
+};
+
+const CHROME_CANDIDATES = [
+  '/usr/bin/google-chrome',
+  '/usr/bin/google-chrome-stable',
+  '/usr/bin/chromium',
+  '/usr/bin/chromium-browser',
+  '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+  'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
+];
+
+export interface ClipOptions {
+  startMs: number; // offset into the recording, like ReplayPlayer's current time
+  durationMs: number;
+  format: ClipFormat;
+}
+
+export type RenderStage = 'rendering' | 'encoding';
+
+// Missing tooling, as opposed to a recording that can't be rendered
+export class RenderUnavailableError extends Error {}
+
+export function isClipFormat(value: unknown): value is ClipFormat {
+  return typeof value === 'string' && Object.keys(CLIP_FORMATS).includes(value);
+}
+
+async function findChrome(): Promise<string> {
+  const candidates = process.env.CHROME_PATH ? [process.env.CHROME_PATH] : CHROME_CANDIDATES;
+  for (const candidate of candidates) {
+    try {
+      await fs.access(candidate);
+      return candidate;
+    } catch {
+      // Try the next one
+    }
+  }
+  throw new RenderUnavailableError('Chrome or Chromium was not found. Install it or set CHROME_PATH.');
+}
+
+function ffmpegArgs(format: ClipFormat, fps: number, width: number): string[] {
+  // Even dimensions, which the video encoders require
+  const scale = `scale=${width}:-2:flags=lanczos`;
+  const input = ['-hide_banner', '-loglevel', 'error', '-f', 'image2pipe', '-framerate', String(fps), '-i', '-'];
+
+  switch (format) {
+    case 'gif':
+      // A palette made from the clip itself looks far better than the default one
+      return [...input, '-vf', `${scale},split[a][b];[a]palettegen[p];[b][p]paletteuse`, '-loop', '0', '-f', 'gif', 'pipe:1'];
+    case 'webm':
+      return [...input, '-vf', scale, '-c:v', 'libvpx-vp9', '-b:v', '0', '-crf', '36', '-deadline', 'realtime', '-pix_fmt', 'yuv420p', '-f', 'webm', 'pipe:1'];
+    case 'mp4':
+      // Fragmented so it can be written to a pipe
+      return [...input, '-vf', scale, '-c:v', 'libx264', '-preset', 'veryfast', '-pix_fmt', 'yuv420p', '-movflags', 'frag_keyframe+empty_moov', '-f', 'mp4', 'pipe:1'];
+  }
+}
+
+// Size of the recorded screen, from the first Meta event, shrunk to fit
+// MAX_VIEWPORT with its proportions kept
+function getViewport(events: RRWebEvent[]): { width: number; height: number } {
+  const meta = events.find((event) => event.type === 4)?.data as { width?: number; height?: number } | undefined;
+  const size = (value: unknown, fallback: number) => {
+    const n = Number(value);
+    return Number.isFinite(n) && n > 0 ? n : fallback;
+  };
+  const width = size(meta?.width, 1280);
+  const height = size(meta?.height, 800);
+  const scale = Math.min(1, MAX_VIEWPORT.width / width, MAX_VIEWPORT.height / height);
+  return {
+    width: Math.max(MIN_VIEWPORT.width, Math.round(width * scale)),
+    height: Math.max(MIN_VIEWPORT.height, Math.round(height * scale)),
+  };
+}
+
+function startEncoder(args: string[]) {
+  const ffmpeg = spawn(process.env.FFMPEG_PATH || 'ffmpeg', args, { stdio: ['pipe', 'pipe', 'pipe'] });
+  const chunks: Buffer[] = [];
+  let stderr = '';
+
+  ffmpeg.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+  // Write errors reach the caller through writeFrame's callback
+  ffmpeg.stdin.on('error', () => {});
+  ffmpeg.stderr.on('data', (chunk: Buffer) => {
+    stderr += chunk.toString();
+  });
+
+  const output = new Promise<Buffer>((resolve, reject) => {
+    ffmpeg.on('error', (err: NodeJS.ErrnoException) => {
+      reject(err.code === 'ENOENT'
+        ? new RenderUnavailableError('ffmpeg was not found. Install it or set FFMPEG_PATH.')
+        : err);
+    });
+    ffmpeg.on('close', (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(chunks));
+      } else {
+        reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim().slice(-500)}`));
+      }
+    });
+  });
+  // Surfaced through `output` instead
+  output.catch(() => {});
+
+  const writeFrame = (frame: Uint8Array) =>
+    new Promise<void>((resolve, reject) => {
+      ffmpeg.stdin.write(frame, (err) => (err ? reject(err) : resolve()));
+    });
+
+  return { writeFrame, finish: () => ffmpeg.stdin.end(), output, kill: () => ffmpeg.kill() };
+}
+
+// The player bundle and styles are injected inline, so nothing the page needs
+// comes over the network
+function isLocalUrl(url: string): boolean {
+  return url === 'about:blank' || url.startsWith('data:') || url.startsWith('blob:');
+}
+
+// The replayer page: rrweb-player's own bundle and styles, no controller
+async function loadReplayerPage(browser: Browser, events: RRWebEvent[]) {
+  const viewport = getViewport(events);
+  const page = await browser.newPage();
+  await page.setRequestInterception(true);
+  page.on('request', (request) => {
+    void (isLocalUrl(request.url()) ? request.continue() : request.abort('blockedbyclient'));
+  });
+  await page.setViewport(viewport);
+  await page.setContent('<!DOCTYPE html><html><body style="margin:0;background:#000"><div id="root"></div></body></html>');
+
+  const playerDir = path.join(process.cwd(), 'node_modules', 'rrweb-player', 'dist');
+  await page.addStyleTag({ path: path.join(playerDir, 'style.css') });
+  await page.addScriptTag({ path: path.join(playerDir, 'index.js') });
+
+  await page.evaluate((events, { width, height }) => {
+    const Player = (window as unknown as { rrwebPlayer: new (options: unknown) => unknown }).rrwebPlayer;
+    (window as unknown as { player: unknown }).player = new Player({
+      target: document.getElementById('root'),
+      props: { events, width, height, autoPlay: false, showController: false, skipInactive: false },
+    });
+  }, events, viewport);
+
+  return { page, viewport };
+}
+
+export async function renderClip(
+  events: RRWebEvent[],
+  { startMs, durationMs, format }: ClipOptions,
+  onProgress: (stage: RenderStage, progress: number) => void
+): Promise<Buffer> {
+  const { fps } = CLIP_FORMATS[format];
+  const frameCount = Math.max(1, Math.round((durationMs / 1000) * fps));
+  const chrome = await findChrome();
+
+  const browser = await puppeteer.launch({
+    executablePath: chrome,
+    headless: true,
+    args: process.env.CHROME_NO_SANDBOX === '1'
+      ? ['--no-sandbox', '--disable-dev-shm-usage']
+      : ['--disable-dev-shm-usage'],
+  });
+
+  let encoder: ReturnType<typeof startEncoder> | null = null;
+  try {
+    const { page, viewport } = await loadReplayerPage(browser, events);
+    encoder = startEncoder(ffmpegArgs(format, fps, Math.min(viewport.width, MAX_OUTPUT_WIDTH)));
+
+    for (let frame = 0; frame < frameCount; frame++) {
+      const timeOffset = startMs + (frame * 1000) / fps;
+      await page.evaluate((offset) => {
+        const player = (window as unknown as { player: { getReplayer: () => { pause: (ms: number) => void } } }).player;
+        player.getReplayer().pause(offset);
+      }, timeOffset);
+
+      await encoder.writeFrame(await page.screenshot({ type: 'png' }));
+      onProgress('rendering', (frame + 1) / frameCount);
+    }
+
+    onProgress('encoding', 0);
+    encoder.finish();
+    const output = await encoder.output;
+    onProgress('encoding', 1);
+    return output;
+  } catch (err) {
+    encoder?.kill();
+    // Writing into an ffmpeg that died (or never started) fails first, its own
+    // error says why
+    const code = (err as NodeJS.ErrnoException).code;
+    if (encoder && (code === 'EPIPE' || code === 'ERR_STREAM_DESTROYED')) {
+      await encoder.output;
+    }
+    throw err;
+  } finally {
+    await browser.close();
+  }
+}
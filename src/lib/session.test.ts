@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// session.ts keeps its key for the life of the module, so every test gets a
+// fresh copy with whatever SESSION_SECRET it stubbed
+async function loadSession() {
+  vi.resetModules();
+  return import('./session');
+}
+
+type SessionModule = Awaited<ReturnType<typeof loadSession>>;
+
+function profile(session: SessionModule, label = 'Main') {
+  return session.addSessionProfile(null, {
+    projectId: '1',
+    host: 'https://us.posthog.com',
+    label,
+    apiKey: 'phx_secret_key_1234',
+  });
+}
+
+// The cookie value setSessionCookie would send
+function issueCookie(session: SessionModule, data = profile(session)): string {
+  const response = NextResponse.json({});
+  session.setSessionCookie(response, data);
+  return response.cookies.get(session.SESSION_COOKIE)!.value;
+}
+
+function requestWith(session: SessionModule, value: string): NextRequest {
+  return new NextRequest('https://tikhog.example/api/session', {
+    headers: { cookie: `${session.SESSION_COOKIE}=${value}` },
+  });
+}
+
+beforeEach(() => {
+  vi.stubEnv('SESSION_SECRET', 'test secret');
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe('session cookie', () => {
+  it('reads back what it wrote, without the key showing in the cookie', async () => {
+    const session = await loadSession();
+    const data = profile(session);
+    const value = issueCookie(session, data);
+
+    expect(value).not.toContain('phx_secret_key_1234');
+    expect(Buffer.from(value, 'base64url').toString('latin1')).not.toContain('phx_secret_key_1234');
+    expect(session.readSession(requestWith(session, value))).toEqual(data);
+    expect(session.getSessionCredentials(requestWith(session, value))).toEqual({
+      projectId: '1',
+      host: 'https://us.posthog.com',
+      apiKey: 'phx_secret_key_1234',
+    });
+  });
+
+  it('turns away a cookie with any byte changed', async () => {
+    const session = await loadSession();
+    const bytes = Buffer.from(issueCookie(session), 'base64url');
+
+    // IV, auth tag and ciphertext alike
+    for (const index of [0, 14, bytes.length - 1]) {
+      const tampered = Buffer.from(bytes);
+      tampered[index] ^= 1;
+      expect(session.readSession(requestWith(session, tampered.toString('base64url')))).toBeNull();
+    }
+  });
+
+  it('turns away cookies that are cut short or not ours at all', async () => {
+    const session = await loadSession();
+    const value = issueCookie(session);
+
+    expect(session.readSession(requestWith(session, value.slice(0, 20)))).toBeNull();
+    expect(session.readSession(requestWith(session, 'not-a-session'))).toBeNull();
+    expect(session.readSession(requestWith(session, ''))).toBeNull();
+  });
+
+  it('turns away a cookie made with another secret', async () => {
+    const value = issueCookie(await loadSession());
+
+    vi.stubEnv('SESSION_SECRET', 'rotated secret');
+    const session = await loadSession();
+    expect(session.readSession(requestWith(session, value))).toBeNull();
+  });
+
+  it('turns away a cookie past its expiry', async () => {
+    vi.useFakeTimers();
+    const session = await loadSession();
+    const value = issueCookie(session);
+
+    vi.setSystemTime(Date.now() + 29 * 24 * 60 * 60 * 1000);
+    expect(session.readSession(requestWith(session, value))).not.toBeNull();
+    vi.setSystemTime(Date.now() + 2 * 24 * 60 * 60 * 1000);
+    expect(session.readSession(requestWith(session, value))).toBeNull();
+  });
+
+  it('needs SESSION_SECRET in production', async () => {
+    vi.stubEnv('SESSION_SECRET', '');
+    vi.stubEnv('NODE_ENV', 'production');
+    const session = await loadSession();
+
+    expect(() => issueCookie(session)).toThrow('SESSION_SECRET must be set in production');
+  });
+
+  it("won't write a cookie the browser would drop", async () => {
+    const session = await loadSession();
+    let data = profile(session);
+    for (let i = 2; i <= session.MAX_PROFILES; i++) {
+      data = session.addSessionProfile(data, {
+        projectId: String(i),
+        host: 'https://us.posthog.com',
+        label: 'x'.repeat(session.MAX_LABEL_LENGTH),
+        apiKey: `phx_${String(i).padStart(40, '0')}`,
+      });
+    }
+
+    expect(() => issueCookie(session, data)).toThrow(session.SessionTooLargeError);
+  });
+});
@@ -0,0 +1,231 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import type { Credentials, ProjectProfile, SavedKey, SessionState } from '@/types/posthog';
+
+// Personal API keys live only in this cookie, encrypted with AES-256-GCM and
+// HttpOnly so page scripts can't read it. SESSION_SECRET is required in
+// production: every server instance needs the same key, and it has to survive
+// restarts, or everyone gets logged out.
+
+export const SESSION_COOKIE = 'tikhog_session';
+const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+// Most projects one session remembers. Labels and keys vary in length, so
+// this alone doesn't keep the cookie small enough, setSessionCookie checks.
+export const MAX_PROFILES = 12;
+// Browsers silently drop a cookie whose name and value go over 4096 bytes,
+// and the old one stays. Leaves some room to spare.
+const MAX_COOKIE_BYTES = 4000;
+
+// Caps on what goes into the cookie for every profile
+export const MAX_LABEL_LENGTH = 64;
+export const MAX_HOST_LENGTH = 255;
+export const MAX_PROJECT_ID_LENGTH = 32;
+
+export class SessionTooLargeError extends Error {}
+
+// Everything the cookie holds. Profiles point at a key by reference so one
+// key can serve several projects.
+export interface SessionData {
+  profiles: ProjectProfile[];
+  keys: Record<string, { host: string; apiKey: string }>;
+  activeProfileId: string;
+}
+
+let cachedKey: Buffer | null = null;
+
+function getEncryptionKey(): Buffer {
+  if (cachedKey) return cachedKey;
+
+  const secret = process.env.SESSION_SECRET;
+  if (secret) {
+    cachedKey = createHash('sha256').update(secret).digest();
+  } else if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set in production');
+  } else {
+    console.warn('⚠️ SESSION_SECRET is not set, sessions will not survive a restart');
+    cachedKey = randomBytes(32);
+  }
+  return cachedKey;
+}
+
+function encrypt(plaintext: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+}
+
+function decrypt(value: string): string | null {
+  // Outside the try, a missing secret is a setup problem and not a bad cookie
+  const key = getEncryptionKey();
+  try {
+    const data = Buffer.from(value, 'base64url');
+    if (data.length <= IV_BYTES + TAG_BYTES) return null;
+
+    const decipher = createDecipheriv('aes-256-gcm', key, data.subarray(0, IV_BYTES));
+    decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    return Buffer.concat([
+      decipher.update(data.subarray(IV_BYTES + TAG_BYTES)),
+      decipher.final(),
+    ]).toString('utf8');
+  } catch {
+    // Tampered, or encrypted with a different secret
+    return null;
+  }
+}
+
+function newId(): string {
+  return randomBytes(6).toString('hex');
+}
+
+export function readSession(request: NextRequest): SessionData | null {
+  const value = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!value) return null;
+
+  const plaintext = decrypt(value);
+  if (!plaintext) return null;
+
+  try {
+    const { expiresAt, ...data } = JSON.parse(plaintext);
+    if (!Array.isArray(data?.profiles) || typeof data.keys !== 'object' || typeof data.activeProfileId !== 'string') {
+      return null;
+    }
+    // The browser drops the cookie at maxAge, a copy kept elsewhere stops working too
+    if (typeof expiresAt !== 'number' || expiresAt <= Date.now()) {
+      return null;
+    }
+    return data as SessionData;
+  } catch {
+    return null;
+  }
+}
+
+function getProfileCredentials(session: SessionData, profile: ProjectProfile): Credentials | null {
+  const key = session.keys[profile.keyRef];
+  return key ? { projectId: profile.projectId, host: profile.host, apiKey: key.apiKey } : null;
+}
+
+// Credentials of the active project for this request, or null when not logged in
+export function getSessionCredentials(request: NextRequest): Credentials | null {
+  const session = readSession(request);
+  const profile = session?.profiles.find((p) => p.id === session.activeProfileId);
+  return session && profile ? getProfileCredentials(session, profile) : null;
+}
+
+// A key already in the session, for adding another project with it
+export function getSessionApiKey(request: NextRequest, keyRef: string, host: string): string | null {
+  const key = readSession(request)?.keys[keyRef];
+  return key && key.host === host ? key.apiKey : null;
+}
+
+// What the browser is allowed to know about the session: no keys, just hints
+export function toSessionState(session: SessionData): SessionState | null {
+  const active = session.profiles.find((p) => p.id === session.activeProfileId);
+  if (!active) return null;
+
+  const keys: SavedKey[] = Object.entries(session.keys).map(([keyRef, { host, apiKey }]) => ({
+    keyRef,
+    host,
+    hint: apiKey.slice(-4),
+  }));
+
+  return {
+    projectId: active.projectId,
+    host: active.host,
+    profileId: active.id,
+    profiles: session.profiles,
+    keys,
+  };
+}
+
+// Add a project (or switch to it if it's already there) and make it active
+export function addSessionProfile(
+  session: SessionData | null,
+  { projectId, host, label, apiKey, keyRef }: {
+    projectId: string;
+    host: string;
+    label: string;
+    apiKey?: string;
+    keyRef?: string;
+  }
+): SessionData {
+  const next: SessionData = session
+    ? { profiles: [...session.profiles], keys: { ...session.keys }, activeProfileId: session.activeProfileId }
+    : { profiles: [], keys: {}, activeProfileId: '' };
+
+  // The same key typed in again reuses its reference
+  let ref = keyRef && next.keys[keyRef] ? keyRef : undefined;
+  if (!ref && apiKey) {
+    ref = Object.keys(next.keys).find((k) => next.keys[k].apiKey === apiKey && next.keys[k].host === host) ?? newId();
+    next.keys[ref] = { host, apiKey };
+  }
+  if (!ref) {
+    throw new Error('An API key or key reference is required');
+  }
+
+  const existing = next.profiles.findIndex((p) => p.host === host && p.projectId === projectId);
+  const profile: ProjectProfile = {
+    id: existing >= 0 ? next.profiles[existing].id : newId(),
+    label,
+    host,
+    projectId,
+    keyRef: ref,
+  };
+
+  if (existing >= 0) {
+    next.profiles[existing] = profile;
+  } else {
+    next.profiles.push(profile);
+  }
+  next.activeProfileId = profile.id;
+
+  // Oldest profiles go first, never the one just added
+  while (next.profiles.length > MAX_PROFILES) {
+    next.profiles.splice(next.profiles[0].id === profile.id ? 1 : 0, 1);
+  }
+
+  return pruneUnusedKeys(next);
+}
+
+export function removeSessionProfile(session: SessionData, profileId: string): SessionData | null {
+  const profiles = session.profiles.filter((p) => p.id !== profileId);
+  if (profiles.length === 0) return null;
+
+  const activeProfileId = session.activeProfileId === profileId ? profiles[0].id : session.activeProfileId;
+  return pruneUnusedKeys({ ...session, profiles, activeProfileId });
+}
+
+// Keys no profile points at anymore don't stay around
+function pruneUnusedKeys(session: SessionData): SessionData {
+  const used = new Set(session.profiles.map((p) => p.keyRef));
+  const keys = Object.fromEntries(Object.entries(session.keys).filter(([ref]) => used.has(ref)));
+  return { ...session, keys };
+}
+
+// Throws SessionTooLargeError rather than set a cookie the browser would ignore
+export function setSessionCookie(response: NextResponse, session: SessionData) {
+  const value = encrypt(JSON.stringify({ ...session, expiresAt: Date.now() + SESSION_MAX_AGE_SECONDS * 1000 }));
+  if (SESSION_COOKIE.length + 1 + value.length > MAX_COOKIE_BYTES) {
+    throw new SessionTooLargeError('Too many saved projects, remove one and try again');
+  }
+
+  response.cookies.set(SESSION_COOKIE, value, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+}
@@ -0,0 +1,112 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import zlib from 'zlib';
+import type { RRWebEvent } from '@/types/posthog';
+
+// On-disk cache of decoded snapshot events for finished recordings. Those never
+// change, so an entry stays valid until it's evicted for space.
+//
+// Entries are gzipped JSON files. Reads bump the file's mtime, and after every
+// write the oldest files are deleted until the directory fits the size budget.
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+const CACHE_DIR = process.env.SNAPSHOT_CACHE_DIR || path.join(process.cwd(), '.cache', 'snapshots');
+const MAX_CACHE_BYTES = Number(process.env.SNAPSHOT_CACHE_MAX_BYTES) || 500 * 1024 * 1024;
+// Bump when the cached event format changes so old entries stop matching
+const CACHE_VERSION = 'v2';
+
+export function getSnapshotCacheKey(host: string, projectId: string, recordingId: string): string {
+  return createHash('sha256')
+    .update(`${CACHE_VERSION}|${host}|${projectId}|${recordingId}`)
+    .digest('hex')
+    .slice(0, 40);
+}
+
+// Cached content is immutable per key, so the key doubles as the ETag
+export function getSnapshotCacheEtag(cacheKey: string): string {
+  return `"${cacheKey}"`;
+}
+
+function entryPath(cacheKey: string): string {
+  return path.join(CACHE_DIR, `${cacheKey}.json.gz`);
+}
+
+export async function hasCachedSnapshots(cacheKey: string): Promise<boolean> {
+  try {
+    await fs.stat(entryPath(cacheKey));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function readCachedSnapshots(cacheKey: string): Promise<RRWebEvent[] | null> {
+  const file = entryPath(cacheKey);
+
+  try {
+    const compressed = await fs.readFile(file);
+    const events = JSON.parse((await gunzip(compressed)).toString('utf8')) as RRWebEvent[];
+
+    // Mark as recently used for LRU eviction
+    const now = new Date();
+    await fs.utimes(file, now, now).catch(() => {});
+
+    return events;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Failed to read snapshot cache entry, dropping it:', e);
+      await fs.rm(file, { force: true }).catch(() => {});
+    }
+    return null;
+  }
+}
+
+export async function writeCachedSnapshots(cacheKey: string, events: RRWebEvent[]): Promise<void> {
+  try {
+    await fs.mkdir(CACHE_DIR, { recursive: true });
+
+    const compressed = await gzip(JSON.stringify(events));
+    if (compressed.length > MAX_CACHE_BYTES) return;
+
+    // Write to a temp file and rename so readers never see half an entry
+    const file = entryPath(cacheKey);
+    const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempFile, compressed);
+    await fs.rename(tempFile, file);
+
+    await evictSnapshotCache();
+  } catch (e) {
+    console.error('Failed to write snapshot cache entry:', e);
+  }
+}
+
+// Delete least recently used entries until the cache fits MAX_CACHE_BYTES
+async function evictSnapshotCache(): Promise<void> {
+  const names = await fs.readdir(CACHE_DIR);
+  const entries = await Promise.all(
+    names
+      .filter((name) => name.endsWith('.json.gz'))
+      .map(async (name) => {
+        const file = path.join(CACHE_DIR, name);
+        const stat = await fs.stat(file).catch(() => null);
+        return stat ? { file, size: stat.size, lastUsed: stat.mtimeMs } : null;
+      })
+  );
+
+  const live = entries
+    .filter((entry): entry is NonNullable<typeof entry> => entry !== null)
+    .sort((a, b) => a.lastUsed - b.lastUsed);
+
+  let totalBytes = live.reduce((sum, entry) => sum + entry.size, 0);
+
+  for (const entry of live) {
+    if (totalBytes <= MAX_CACHE_BYTES) break;
+    await fs.rm(entry.file, { force: true }).catch(() => {});
+    totalBytes -= entry.size;
+    console.log(`🧹 Evicted ${path.basename(entry.file)} from snapshot cache`);
+  }
+}
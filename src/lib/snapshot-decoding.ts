@@ -0,0 +1,265 @@
+import pako from 'pako';
+import type { RRWebEvent, SnapshotIssues, SnapshotWarning, SnapshotWarningCode, SnapshotsResponse } from '@/types/posthog';
+
+// Turns whatever PostHog hands back for a snapshot source into rrweb events.
+// Handles, from the outside in:
+// - binary (gzipped) or text bodies
+// - legacy `snapshot_data_by_window_id` JSON and `{ snapshots }` realtime JSON
+// - JSONL lines of `[windowId, event]` pairs, `{ window_id, data: [...] }`
+//   objects, or bare events
+// - events packed whole by rrweb's packer (a zlib string)
+// - posthog-js `cv` compression, where big fields are gzipped separately
+// - older events whose whole `data` is a gzip string, raw or base64
+// Anything that can't be decoded is skipped and reported as a warning instead
+// of failing the batch.
+
+// posthog-js tags events whose fields it compressed with this version
+const COMPRESSION_VERSION = '2024-10';
+// Incremental snapshot fields posthog-js compresses (mutations and style sheet rules)
+const COMPRESSED_MUTATION_FIELDS = ['texts', 'attributes', 'removes', 'adds'];
+
+export interface SnapshotDecodeResult {
+  events: RRWebEvent[];
+  warnings: SnapshotWarning[];
+}
+
+type Warn = (code: SnapshotWarningCode, message: string) => void;
+
+function createWarnings(): { warn: Warn; list: () => SnapshotWarning[] } {
+  const warnings = new Map<SnapshotWarningCode, SnapshotWarning>();
+  return {
+    warn: (code, message) => {
+      const existing = warnings.get(code);
+      if (existing) {
+        existing.count++;
+      } else {
+        warnings.set(code, { code, message, count: 1 });
+      }
+    },
+    list: () => Array.from(warnings.values()),
+  };
+}
+
+// Several batches' warnings as one list, counts added up
+export function mergeSnapshotWarnings(lists: SnapshotWarning[][]): SnapshotWarning[] {
+  const merged = new Map<SnapshotWarningCode, SnapshotWarning>();
+  for (const warning of lists.flat()) {
+    const existing = merged.get(warning.code);
+    merged.set(warning.code, existing ? { ...existing, count: existing.count + warning.count } : { ...warning });
+  }
+  return Array.from(merged.values());
+}
+
+function isGzip(bytes: Uint8Array): boolean {
+  return bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+function isZlib(bytes: Uint8Array): boolean {
+  return bytes[0] === 0x78 && [0x01, 0x5e, 0x9c, 0xda].includes(bytes[1]);
+}
+
+// Compressed bytes that went through JSON as a string, one char per byte
+function latin1ToBytes(value: string): Uint8Array {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) {
+    bytes[i] = value.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  return latin1ToBytes(atob(value));
+}
+
+// The JSON inside a compressed string. `undefined` when the string isn't
+// compressed at all, throws when it looks compressed but doesn't inflate.
+function inflateString(value: string): unknown {
+  let bytes = latin1ToBytes(value.slice(0, 2));
+  if (isGzip(bytes) || isZlib(bytes)) {
+    bytes = latin1ToBytes(value);
+  } else if (value.startsWith('H4sI')) {
+    // base64 of a gzip header
+    bytes = base64ToBytes(value);
+  } else {
+    return undefined;
+  }
+  // pako detects gzip vs zlib from the header
+  return JSON.parse(pako.inflate(bytes, { to: 'string' }));
+}
+
+function isRRWebEvent(value: unknown): value is RRWebEvent {
+  const event = value as RRWebEvent | null;
+  return typeof event?.type === 'number' && typeof event.timestamp === 'number';
+}
+
+// posthog-js `cv` events: a full snapshot's whole `data`, or a mutation's
+// big fields, were gzipped on their own
+function decompressVersionedEvent(event: RRWebEvent & { cv: string }, warn: Warn): RRWebEvent | null {
+  const { cv, ...rest } = event;
+  if (cv !== COMPRESSION_VERSION) {
+    warn('unsupported_compression', `Events compressed with an unknown version (${cv}) were skipped`);
+    return null;
+  }
+
+  try {
+    if (typeof rest.data === 'string') {
+      return { ...rest, data: inflateString(rest.data) ?? rest.data };
+    }
+
+    const data = { ...(rest.data as Record<string, unknown>) };
+    for (const field of COMPRESSED_MUTATION_FIELDS) {
+      if (typeof data[field] === 'string') {
+        data[field] = inflateString(data[field] as string) ?? data[field];
+      }
+    }
+    return { ...rest, data };
+  } catch {
+    warn('decompress_failed', 'Some compressed events could not be decompressed and were skipped');
+    return null;
+  }
+}
+
+function decodeEvent(raw: unknown, warn: Warn): RRWebEvent | null {
+  // rrweb's packer: the whole event is one compressed string
+  if (typeof raw === 'string') {
+    try {
+      const unpacked = inflateString(raw) as (RRWebEvent & { v?: string }) | undefined;
+      if (isRRWebEvent(unpacked)) {
+        delete unpacked.v;
+        return unpacked;
+      }
+    } catch {
+      // Reported below
+    }
+    warn('decompress_failed', 'Some packed events could not be unpacked and were skipped');
+    return null;
+  }
+
+  if (!isRRWebEvent(raw)) {
+    warn('unknown_format', 'Some entries were not rrweb events and were skipped');
+    return null;
+  }
+
+  if (typeof (raw as { cv?: unknown }).cv === 'string') {
+    return decompressVersionedEvent(raw as RRWebEvent & { cv: string }, warn);
+  }
+
+  // Older events with the whole `data` gzipped
+  if (typeof raw.data === 'string') {
+    try {
+      const data = inflateString(raw.data);
+      return data === undefined ? raw : { ...raw, data };
+    } catch {
+      warn('decompress_failed', 'Some compressed events could not be decompressed and were skipped');
+      return null;
+    }
+  }
+
+  return raw;
+}
+
+// Keep which window an event came from, so multi-tab sessions can be played
+// one window at a time
+function decodeWindowEvents(rawEvents: unknown[], windowId: unknown, warn: Warn): RRWebEvent[] {
+  const events: RRWebEvent[] = [];
+  for (const raw of rawEvents) {
+    const event = decodeEvent(raw, warn);
+    if (!event) continue;
+    if (typeof windowId === 'string' || typeof windowId === 'number') {
+      event.windowId = String(windowId);
+    }
+    events.push(event);
+  }
+  return events;
+}
+
+// One JSONL line, which may hold several events
+function decodeEntry(entry: unknown, warn: Warn): RRWebEvent[] {
+  // [windowId, event]
+  if (Array.isArray(entry) && entry.length === 2 && !isRRWebEvent(entry[0])) {
+    return decodeWindowEvents([entry[1]], entry[0], warn);
+  }
+
+  // { window_id, data: [...] } from blob v1 and realtime
+  const grouped = entry as { window_id?: unknown; data?: unknown } | null;
+  if (grouped && !isRRWebEvent(grouped) && Array.isArray(grouped.data)) {
+    return decodeWindowEvents(grouped.data, grouped.window_id, warn);
+  }
+
+  return decodeWindowEvents([entry], undefined, warn);
+}
+
+// Whole-body JSON shapes from older PostHog versions, or null for JSONL
+function decodeLegacyBody(text: string, warn: Warn): RRWebEvent[] | null {
+  if (!text.startsWith('{')) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  const legacy = parsed as Partial<SnapshotsResponse> & { snapshots?: unknown };
+  if (legacy.snapshot_data_by_window_id && typeof legacy.snapshot_data_by_window_id === 'object') {
+    return Object.entries(legacy.snapshot_data_by_window_id).flatMap(([windowId, events]) =>
+      Array.isArray(events) ? decodeWindowEvents(events, windowId, warn) : []
+    );
+  }
+  if (Array.isArray(legacy.snapshots)) {
+    return legacy.snapshots.flatMap((entry) => decodeEntry(entry, warn));
+  }
+  return null;
+}
+
+export function decodeSnapshotBody(body: string | Uint8Array): SnapshotDecodeResult {
+  const { warn, list } = createWarnings();
+
+  let text: string;
+  if (typeof body === 'string') {
+    text = body;
+  } else if (isGzip(body)) {
+    // Blob storage sometimes hands the file over still gzipped
+    try {
+      text = pako.ungzip(body, { to: 'string' });
+    } catch {
+      warn('decompress_failed', 'A compressed snapshot file could not be decompressed');
+      return { events: [], warnings: list() };
+    }
+  } else {
+    text = new TextDecoder().decode(body);
+  }
+
+  const trimmed = text.trim();
+  let events = decodeLegacyBody(trimmed, warn);
+
+  if (!events) {
+    events = [];
+    for (const line of trimmed.split('\n')) {
+      if (!line.trim()) continue;
+
+      let entry: unknown;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        warn('unparseable_line', 'Some lines of snapshot data were not valid JSON and were skipped');
+        continue;
+      }
+      for (const event of decodeEntry(entry, warn)) {
+        events.push(event);
+      }
+    }
+  }
+
+  events.sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
+  return { events, warnings: list() };
+}
+
+// Short description of what's missing from a replay, or null if it's complete
+export function describeSnapshotIssues({ failedBatches, totalBatches, warnings }: SnapshotIssues): string | null {
+  if (failedBatches > 0) {
+    return `${failedBatches} of ${totalBatches} ${totalBatches === 1 ? 'chunk' : 'chunks'} missing`;
+  }
+  const skipped = warnings.reduce((sum, warning) => sum + warning.count, 0);
+  return skipped > 0 ? `${skipped} ${skipped === 1 ? 'part' : 'parts'} couldn't be decoded` : null;
+}
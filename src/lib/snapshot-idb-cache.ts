@@ -0,0 +1,112 @@
+import type { RRWebEvent } from '@/types/posthog';
+
+// Browser-side cache of recently watched recordings so they survive a reload
+// without hitting the snapshots route at all. Only finished recordings are
+// stored, and only the most recently used few are kept.
+
+const DB_NAME = 'tikhog';
+const DB_VERSION = 1;
+const STORE_NAME = 'snapshots';
+const MAX_ENTRIES = 30;
+
+interface CachedSnapshotEntry {
+  key: string;
+  events: RRWebEvent[];
+  lastUsed: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('lastUsed', 'lastUsed');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Part of every key. v1 entries predate window IDs on events and are left to
+// age out.
+const KEY_VERSION = 'v2';
+
+export function getSnapshotIdbKey(host: string, projectId: string, recordingId: string): string {
+  return `${KEY_VERSION}|${host}|${projectId}|${recordingId}`;
+}
+
+export async function getCachedSnapshots(key: string): Promise<RRWebEvent[] | null> {
+  if (typeof indexedDB === 'undefined') return null;
+
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    const entry = await requestToPromise<CachedSnapshotEntry | undefined>(store.get(key));
+    if (!entry) return null;
+
+    // Bump it so it's the last to be evicted
+    store.put({ ...entry, lastUsed: Date.now() });
+    return entry.events;
+  } catch (e) {
+    console.error('Failed to read snapshots from IndexedDB:', e);
+    return null;
+  }
+}
+
+export async function putCachedSnapshots(key: string, events: RRWebEvent[]): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await requestToPromise(store.put({ key, events, lastUsed: Date.now() } satisfies CachedSnapshotEntry));
+    await evictOldEntries(db);
+  } catch (e) {
+    console.error('Failed to write snapshots to IndexedDB:', e);
+  }
+}
+
+// Keep only the MAX_ENTRIES most recently used recordings
+async function evictOldEntries(db: IDBDatabase): Promise<void> {
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  const total = await requestToPromise(store.count());
+  let toDelete = total - MAX_ENTRIES;
+  if (toDelete <= 0) return;
+
+  await new Promise<void>((resolve, reject) => {
+    // Oldest first
+    const cursorRequest = store.index('lastUsed').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || toDelete <= 0) {
+        resolve();
+        return;
+      }
+      cursor.delete();
+      toDelete--;
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { readNdjsonStream } from './snapshot-stream';
+
+// A response whose body arrives in exactly these pieces
+function chunkedResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  }));
+}
+
+describe('readNdjsonStream', () => {
+  it('puts lines split across chunks back together', async () => {
+    const messages: unknown[] = [];
+    await readNdjsonStream(chunkedResponse(['{"a":', '1}\n{"b"', ':2}\n\n{"c":3', '}']), (message) => {
+      messages.push(message);
+    });
+    expect(messages).toEqual([{ a: 1 }, { b: 2 }, { c: 3 }]);
+  });
+
+  it('reads one long line in many small chunks', async () => {
+    const line = JSON.stringify({ events: Array.from({ length: 5000 }, (_, i) => ({ i })) });
+    const chunks: string[] = [];
+    for (let i = 0; i < line.length; i += 64) {
+      chunks.push(line.slice(i, i + 64));
+    }
+    chunks.push('\n{"type":"done"}\n');
+
+    const messages: unknown[] = [];
+    await readNdjsonStream(chunkedResponse(chunks), (message) => {
+      messages.push(message);
+    });
+    expect(messages).toEqual([JSON.parse(line), { type: 'done' }]);
+  });
+
+  it('keeps characters split between chunks intact', async () => {
+    const bytes = new TextEncoder().encode('{"text":"héllo 🎞️"}\n');
+    const response = new Response(new ReadableStream<Uint8Array>({
+      start(controller) {
+        bytes.forEach((byte) => controller.enqueue(new Uint8Array([byte])));
+        controller.close();
+      },
+    }));
+
+    const messages: unknown[] = [];
+    await readNdjsonStream(response, (message) => {
+      messages.push(message);
+    });
+    expect(messages).toEqual([{ text: 'héllo 🎞️' }]);
+  });
+});
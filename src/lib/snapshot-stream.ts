@@ -0,0 +1,75 @@
+import type { RRWebEvent, SnapshotStreamMessage } from '@/types/posthog';
+
+// Read the NDJSON body from the snapshots route, calling `onMessage` for every
+// line as it arrives.
+export function readSnapshotStream(
+  response: Response,
+  onMessage: (message: SnapshotStreamMessage) => void
+): Promise<void> {
+  return readNdjsonStream(response, onMessage);
+}
+
+// Same for any route that streams NDJSON, e.g. render progress
+export async function readNdjsonStream<T>(
+  response: Response,
+  onMessage: (message: T) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  // Pieces of the line that hasn't ended yet. Only new text is searched for
+  // line breaks, a cached recording arrives as one very long line.
+  let partial: string[] = [];
+
+  const flushLine = (line: string) => {
+    if (!line.trim()) return;
+    onMessage(JSON.parse(line) as T);
+  };
+
+  const addText = (text: string) => {
+    let start = 0;
+    let end = text.indexOf('\n');
+    while (end !== -1) {
+      partial.push(text.slice(start, end));
+      flushLine(partial.join(''));
+      partial = [];
+      start = end + 1;
+      end = text.indexOf('\n', start);
+    }
+    if (start < text.length) {
+      partial.push(text.slice(start));
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    addText(decoder.decode(value, { stream: true }));
+  }
+
+  addText(decoder.decode());
+  flushLine(partial.join(''));
+}
+
+// In place. Batches arrive in blob order, and windows recorded side by side
+// interleave across them, so merged events only line up once sorted.
+export function sortByTimestamp(events: RRWebEvent[]): RRWebEvent[] {
+  return events.sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
+}
+
+// rrweb needs a Meta event and a FullSnapshot before it can render anything
+export function hasPlayableSnapshot(events: RRWebEvent[]): boolean {
+  let hasMeta = false;
+  let hasFullSnapshot = false;
+
+  for (const event of events) {
+    if (event.type === 4) hasMeta = true;
+    if (event.type === 2) hasFullSnapshot = true;
+    if (hasMeta && hasFullSnapshot) return true;
+  }
+
+  return false;
+}
@@ -0,0 +1,93 @@
+import { hasPlayableSnapshot } from './snapshot-stream';
+import type { RRWebEvent } from '@/types/posthog';
+
+// A session that spans popups or several tabs has one rrweb stream per browser
+// window, each with its own DOM. They have to be replayed separately, merged
+// they'd apply one page's mutations to another.
+
+// Events without a window ID (older caches, bare events) all go here
+export const DEFAULT_WINDOW_ID = 'default';
+
+// Incremental snapshot sources that mean the user was doing something in a
+// window: mouse move, mouse interaction, scroll, input, touch move
+const INTERACTION_SOURCES = new Set([1, 2, 3, 5, 6]);
+
+export interface RecordingWindow {
+  id: string;
+  label: string; // "Window 1", "Window 2"... in order of first appearance
+  href?: string; // first page seen in it
+  events: RRWebEvent[];
+  startTime: number; // timestamp of its first event
+  isPlayable: boolean;
+}
+
+// Which window the user was in, as offsets from the recording's start
+export interface WindowSegment {
+  windowId: string;
+  startMs: number;
+  endMs: number;
+}
+
+function getWindowId(event: RRWebEvent): string {
+  return event.windowId ?? DEFAULT_WINDOW_ID;
+}
+
+// `events` is sorted by timestamp, so each window's stream is too
+export function splitByWindow(events: RRWebEvent[]): RecordingWindow[] {
+  const byId = new Map<string, RecordingWindow>();
+
+  for (const event of events) {
+    const id = getWindowId(event);
+    let stream = byId.get(id);
+    if (!stream) {
+      stream = { id, label: `Window ${byId.size + 1}`, events: [], startTime: event.timestamp, isPlayable: false };
+      byId.set(id, stream);
+    }
+    if (!stream.href && event.type === 4) {
+      stream.href = (event.data as { href?: string } | null)?.href;
+    }
+    stream.events.push(event);
+  }
+
+  const windows = Array.from(byId.values());
+  for (const stream of windows) {
+    stream.isPlayable = hasPlayableSnapshot(stream.events);
+  }
+  return windows;
+}
+
+function isActivity(event: RRWebEvent): boolean {
+  // A Meta or FullSnapshot is a page load or the tab coming back into view
+  if (event.type === 2 || event.type === 4) return true;
+  const source = (event.data as { source?: number } | null)?.source;
+  return event.type === 3 && source !== undefined && INTERACTION_SOURCES.has(source);
+}
+
+export function buildWindowSegments(events: RRWebEvent[], startTime: number): WindowSegment[] {
+  const segments: WindowSegment[] = [];
+  if (events.length === 0) return segments;
+
+  let current: WindowSegment = { windowId: getWindowId(events[0]), startMs: 0, endMs: 0 };
+  for (const event of events) {
+    const offsetMs = event.timestamp - startTime;
+    const windowId = getWindowId(event);
+    if (windowId !== current.windowId && isActivity(event)) {
+      current.endMs = offsetMs;
+      segments.push(current);
+      current = { windowId, startMs: offsetMs, endMs: offsetMs };
+    }
+  }
+
+  current.endMs = events[events.length - 1].timestamp - startTime;
+  segments.push(current);
+  return segments;
+}
+
+export function findActiveWindow(segments: WindowSegment[], offsetMs: number): string | null {
+  let active: string | null = segments[0]?.windowId ?? null;
+  for (const segment of segments) {
+    if (segment.startMs > offsetMs) break;
+    active = segment.windowId;
+  }
+  return active;
+}
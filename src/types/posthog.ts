@@ -1,3 +1,44 @@
+// The project the current session is logged in to. This is all the browser
+// sees, the API key stays in the server-side session.
+export interface ProjectSession {
+    projectId: string;
+    host: string; // PostHog origin, e.g. https://us.posthog.com
+  }
+
+// Credentials for one project, as the server uses them
+export interface Credentials extends ProjectSession {
+    apiKey: string;
+  }
+
+// What CredentialsForm submits: a new key, or a reference to one already in
+// the session
+export interface ProjectLogin extends ProjectSession {
+    label?: string;
+    apiKey?: string;
+    keyRef?: string;
+  }
+
+// A saved project the header can switch to
+export interface ProjectProfile extends ProjectSession {
+    id: string;
+    label: string;
+    keyRef: string; // which of the session's keys it uses
+  }
+
+// A key held in the session, identified without revealing it
+export interface SavedKey {
+    keyRef: string;
+    host: string;
+    hint: string; // last few characters
+  }
+
+// GET /api/session: the active project plus everything that can be switched to
+export interface SessionState extends ProjectSession {
+    profileId: string;
+    profiles: ProjectProfile[];
+    keys: SavedKey[];
+  }
+
 // Type for a session recording from PostHog API
 export interface SessionRecording {
     id: string;
@@ -20,9 +61,18 @@ export interface SessionRecording {
   
   // Response from listing recordings
   export interface SessionRecordingsResponse {
-    count: number;
+    next?: string | null;
+    previous?: string | null;
+    has_next?: boolean; // newer PostHog versions page with this instead of `next`
+    results: SessionRecording[];
+  }
+  
+  // Response from our own /api/replays route. `next` is an opaque cursor to
+  // send back as `cursor`, not an upstream URL. `results` is one filtered page,
+  // so its length says nothing about how many recordings match overall.
+  export interface ReplaysPageResponse {
+    hasNext: boolean;
     next: string | null;
-    previous: string | null;
     results: SessionRecording[];
   }
   
@@ -32,10 +82,43 @@ export interface SessionRecording {
     data: unknown;  // Changed from any
     timestamp: number;
     delay?: number;
+    windowId?: string; // PostHog's window_id, one per browser window or tab
   }
   
   // Response from snapshots endpoint
   export interface SnapshotsResponse {
     snapshot_data_by_window_id: Record<string, RRWebEvent[]>;
   }
-  
\ No newline at end of file
+  
+  // Something in the snapshot data that had to be skipped. Repeats of the same
+  // problem are counted rather than listed.
+  export type SnapshotWarningCode = 'unparseable_line' | 'decompress_failed' | 'unknown_format' | 'unsupported_compression';
+
+  export interface SnapshotWarning {
+    code: SnapshotWarningCode;
+    message: string;
+    count: number;
+  }
+
+  // How complete a loaded recording is, for the UI to flag partial replays
+  export interface SnapshotIssues {
+    failedBatches: number;
+    totalBatches: number;
+    warnings: SnapshotWarning[];
+  }
+
+  // One line of the NDJSON stream from /api/replays/[id]/snapshots with
+  // `?stream=1`. Batches arrive in order, events sorted within each batch.
+  export type SnapshotStreamMessage =
+    | { type: 'batch'; batch: number; totalBatches: number; events: RRWebEvent[]; warnings?: SnapshotWarning[] }
+    | { type: 'batch_error'; batch: number; totalBatches: number; status?: number; message: string }
+    | { type: 'done'; eventCount: number; failedBatches: number };
+
+  export type ClipFormat = 'gif' | 'webm' | 'mp4';
+
+  // One line of the NDJSON progress stream from POST /api/replays/[id]/render.
+  // `progress` is 0..1 within the stage.
+  export type RenderStreamMessage =
+    | { type: 'progress'; stage: 'queued' | 'loading' | 'rendering' | 'encoding'; progress: number }
+    | { type: 'done'; renderId: string; filename: string; bytes: number }
+    | { type: 'error'; message: string };